@@ -1,26 +1,72 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import { Search, AlertCircle, List, ShoppingCart, Compass, Bot } from 'lucide-react';
+import { Search, AlertCircle, List, ShoppingCart, Compass, Bot, History, WifiOff, XCircle, Trash2, PackageSearch } from 'lucide-react';
 import Header from '@/components/Header';
 import GroceryInput from '@/components/GroceryInput';
 import FileUploader from '@/components/FileUploader';
 import ResultsDisplay from '@/components/ResultsDisplay';
 import DealExplorer from '@/components/DealExplorer';
 import ShoppingList from '@/components/ShoppingList';
-import { analyzeGroceryAds } from '@/services/geminiService';
-import { AnalysisResult, UploadedFile, GroceryMatch } from '@/types';
+import HistoryBrowser from '@/components/HistoryBrowser';
+import PipelineProgress from '@/components/PipelineProgress';
+import InventoryTransfer from '@/components/InventoryTransfer';
+import {
+  analyzeGroceryAds,
+  ingestFlyers,
+  matchInventoryOffline,
+  matchShoppingList,
+  retryFailedShards
+} from '@/services/geminiService';
+import { loadLatestInventory, saveAnalysisRun } from '@/services/historyStore';
+import { importInventoryFile } from '@/services/inventoryTransfer';
+import { loadPriceHistory, PriceHistoryIndex } from '@/services/priceHistory';
+import { FixtureRecorder, loadFixture } from '@/services/llm/fixtures';
+import { isApiKeyMissing, isQuotaError } from '@/services/llm/providers';
+import { getSharedResponseCache } from '@/services/llm/responseCache';
+import { applyPipelineEvent, PipelineEvent } from '@/services/pipelineEvents';
+import {
+  initialPipelineState,
+  isPipelineRunning,
+  PipelineState,
+  reducePipelineState,
+  startPipelineState
+} from '@/services/pipelineState';
+import { AnalysisResult, AnalysisRunRecord, UploadedFile, GroceryMatch } from '@/types';
+import { isAbortError } from '@/utils/abort';
 import { logger } from '@/utils/logger';
 
 const App: React.FC = () => {
   const [groceryList, setGroceryList] = useState<string>("");
   const [files, setFiles] = useState<UploadedFile[]>([]);
-  const [loadingStatus, setLoadingStatus] = useState<string | null>(null);
+  // The uploads the inventory on screen was built from; Find Deals only re-scans once they change
+  const [scannedFiles, setScannedFiles] = useState<UploadedFile[] | null>(null);
+  const [pipeline, setPipeline] = useState<PipelineState>(initialPipelineState);
+  const loadingStatus = isPipelineRunning(pipeline) ? pipeline.message : null;
+  // Controller of the run in flight; events and results from any other run are ignored
+  const runRef = useRef<AbortController | null>(null);
   const [result, setResult] = useState<AnalysisResult | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const hasCurrentInventory = scannedFiles === files && !!result?.inventory.length;
 
   // Shopping List State
   const [savedDeals, setSavedDeals] = useState<GroceryMatch[]>([]);
-  const [activeTab, setActiveTab] = useState<'results' | 'explorer' | 'list'>('results');
+  const [activeTab, setActiveTab] = useState<'results' | 'explorer' | 'list' | 'history'>('results');
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [priceHistory, setPriceHistory] = useState<PriceHistoryIndex | null>(null);
+  const [fixtureRecorder, setFixtureRecorder] = useState<FixtureRecorder | null>(null);
+  // Match against saved inventories without any model call (default when no API key is set)
+  const [offlineMode, setOfflineMode] = useState<boolean>(isApiKeyMissing);
+  const [cacheCleared, setCacheCleared] = useState(false);
+
+  // Rebuild the price history index whenever a run is saved
+  useEffect(() => {
+    loadPriceHistory()
+      .then(setPriceHistory)
+      .catch(err => console.error('Failed to load price history:', err));
+  }, [historyVersion]);
+
+  // Leaving the page stops any run still in flight
+  useEffect(() => () => runRef.current?.abort(), []);
 
   const handleFilesSelected = (newFiles: File[]) => {
     // Only accept PDFs and Images
@@ -37,44 +83,308 @@ const App: React.FC = () => {
       file,
     }));
 
+    cancelForChangedFiles();
     setFiles(prev => [...prev, ...newUploadedFiles]);
   };
 
   const handleRemoveFile = (id: string) => {
+    cancelForChangedFiles();
     setFiles(prev => prev.filter(f => f.id !== id));
   };
 
+  // Abort any run still going and start tracking a new one
+  const beginRun = (message: string): AbortController => {
+    runRef.current?.abort();
+    const controller = new AbortController();
+    runRef.current = controller;
+    setPipeline(startPipelineState(message));
+    setCacheCleared(false);
+    return controller;
+  };
+
+  const isCurrentRun = (controller: AbortController) => runRef.current === controller;
+
+  const finishRun = (controller: AbortController) => {
+    if (isCurrentRun(controller)) runRef.current = null;
+  };
+
+  const handleCancel = () => {
+    if (!runRef.current) return;
+    runRef.current.abort();
+    runRef.current = null;
+    setPipeline(prev => reducePipelineState(prev, { type: 'cancelled' }));
+  };
+
+  // Scanning ads that were just changed is wasted work: stop, and drop the partial results from the old files
+  const cancelForChangedFiles = () => {
+    if (!runRef.current || offlineMode) return;
+    handleCancel();
+    setResult(null);
+  };
+
+  // Every event advances the progress state; result events also fill in the result as agents finish
+  const createPipelineListener = (controller: AbortController) => (event: PipelineEvent) => {
+    if (!isCurrentRun(controller)) return;
+    setPipeline(prev => reducePipelineState(prev, event));
+    setResult(prev => applyPipelineEvent(prev, event));
+  };
+
+  // Errors raised outside the orchestrator (fixture loading, empty inventory) still end the run
+  const failPipeline = (message: string) => {
+    setPipeline(prev => (isPipelineRunning(prev) ? reducePipelineState(prev, { type: 'failed', error: message }) : prev));
+  };
+
+  // Optional record/replay of model calls (see .env.example)
+  const prepareFixtures = async () => {
+    const fixtureMode = import.meta.env.VITE_LLM_FIXTURE_MODE;
+    const recorder = fixtureMode === 'record' ? new FixtureRecorder() : undefined;
+    const replay = fixtureMode === 'replay'
+      ? await loadFixture(import.meta.env.VITE_LLM_FIXTURE_URL || './fixtures/llm-fixture.json')
+      : undefined;
+    return { recorder, replay };
+  };
+
+  // Persist the run so it can be reopened later; a storage failure shouldn't hide the results
+  const saveToHistory = async (list: string, plainFiles: File[], data: AnalysisResult) => {
+    try {
+      await saveAnalysisRun(list, plainFiles.map(f => f.name), data);
+      setHistoryVersion(v => v + 1);
+    } catch (storageError) {
+      logger.error('Failed to save analysis to history', storageError);
+    }
+  };
+
+  // An exhausted quota switches to offline matching, which needs no model calls
+  const reportModelRunError = (err: any, fallback: string) => {
+    console.error(err);
+    failPipeline(err.message || "Unknown error");
+    if (isQuotaError(err)) {
+      setOfflineMode(true);
+      setError("The model quota is exhausted. Offline matching is now on: press Find Deals to match your list against your saved inventory.");
+    } else {
+      setError(err.message || fallback);
+    }
+  };
+
+  const handleMatchOffline = async () => {
+    const controller = beginRun("Loading saved inventory...");
+    setError(null);
+    setActiveTab('results');
+
+    try {
+      // Re-match the inventory on screen, or the latest saved week of every store
+      const inventory = result?.inventory.length ? result.inventory : await loadLatestInventory();
+      if (!isCurrentRun(controller)) return;
+      // Clear the previous matches so the new ones stream in
+      setResult(prev => prev && { ...prev, matches: [], unmatched: [], alternatives: {}, summary: '' });
+      const data = await matchInventoryOffline(groceryList, inventory, createPipelineListener(controller), controller.signal);
+      if (!isCurrentRun(controller)) return;
+      setResult({ ...data, pages: result?.pages });
+    } catch (err: any) {
+      if (!isCurrentRun(controller) || isAbortError(err)) return;
+      console.error(err);
+      const message = err.message || "An unexpected error occurred while matching offline.";
+      setError(message);
+      failPipeline(message);
+    } finally {
+      finishRun(controller);
+    }
+  };
+
   const handleAnalyze = async () => {
     if (!groceryList.trim()) {
       setError("Please enter your grocery list.");
       return;
     }
+    if (offlineMode) {
+      await handleMatchOffline();
+      return;
+    }
+    // Nothing new to scan: only Agents 3 and 4 run, against the inventory on screen or the saved one
+    if (files.length === 0 || hasCurrentInventory) {
+      await handleMatchList();
+      return;
+    }
+
+    const controller = beginRun("Initializing Agents...");
+    setError(null);
+    setResult(null);
+    setActiveTab('results');
+
+    try {
+      const plainFiles = files.map(f => f.file);
+      const { recorder, replay } = await prepareFixtures();
+      if (!isCurrentRun(controller)) return;
+      setFixtureRecorder(recorder || null);
+
+      const data = await analyzeGroceryAds(
+        groceryList,
+        plainFiles,
+        createPipelineListener(controller),
+        { recorder, replay, signal: controller.signal, cache: getSharedResponseCache() }
+      );
+      if (!isCurrentRun(controller)) return;
+      setResult(data);
+      setScannedFiles(files);
+      await saveToHistory(groceryList, plainFiles, data);
+    } catch (err: any) {
+      // Cancelled runs keep whatever partial results they produced
+      if (!isCurrentRun(controller) || isAbortError(err)) return;
+      setResult(null);
+      reportModelRunError(err, "An unexpected error occurred while analyzing the ads.");
+    } finally {
+      finishRun(controller);
+    }
+  };
+
+  // Agents 1 and 2 only: scan the ads into an inventory that any number of lists can be matched against
+  const handleBuildInventory = async () => {
     if (files.length === 0) {
       setError("Please upload at least one weekly ad file.");
       return;
     }
 
-    setLoadingStatus("Initializing Agents...");
+    const controller = beginRun("Initializing Agents...");
     setError(null);
     setResult(null);
+    setActiveTab('explorer');
+
+    try {
+      const plainFiles = files.map(f => f.file);
+      const { recorder, replay } = await prepareFixtures();
+      if (!isCurrentRun(controller)) return;
+      setFixtureRecorder(recorder || null);
+
+      const data = await ingestFlyers(
+        plainFiles,
+        createPipelineListener(controller),
+        { recorder, replay, signal: controller.signal, cache: getSharedResponseCache() }
+      );
+      if (!isCurrentRun(controller)) return;
+      setResult(data);
+      setScannedFiles(files);
+      // Saved without a list, so anyone on this device can match theirs against it later
+      await saveToHistory('', plainFiles, data);
+    } catch (err: any) {
+      if (!isCurrentRun(controller) || isAbortError(err)) return;
+      setResult(null);
+      reportModelRunError(err, "An unexpected error occurred while building the inventory.");
+    } finally {
+      finishRun(controller);
+    }
+  };
+
+  // Agents 3 and 4 only: match the list against the inventory on screen, or the latest saved week of every store
+  const handleMatchList = async () => {
+    const controller = beginRun("Loading inventory...");
+    setError(null);
     setActiveTab('results');
+    const base = result;
+
+    try {
+      const inventory = base?.inventory.length ? base.inventory : await loadLatestInventory();
+      const { recorder, replay } = await prepareFixtures();
+      if (!isCurrentRun(controller)) return;
+      setFixtureRecorder(recorder || null);
+      // Clear the previous matches so the new ones stream in
+      setResult(prev => prev && { ...prev, matches: [], unmatched: [], alternatives: {}, summary: '', warnings: [], failedShards: [] });
+
+      const data = await matchShoppingList(
+        groceryList,
+        inventory,
+        createPipelineListener(controller),
+        { recorder, replay, signal: controller.signal, cache: getSharedResponseCache() }
+      );
+      if (!isCurrentRun(controller)) return;
+      setResult({ ...data, pages: base?.pages });
+    } catch (err: any) {
+      if (!isCurrentRun(controller) || isAbortError(err)) return;
+      setResult(base);
+      reportModelRunError(err, "An unexpected error occurred while matching your list.");
+    } finally {
+      finishRun(controller);
+    }
+  };
+
+  // Re-run only the batches the last analysis skipped, keeping everything it already found
+  const handleRetryFailed = async () => {
+    const previous = result;
+    if (!previous?.failedShards?.length) return;
+
+    const controller = beginRun(`Retrying ${previous.failedShards.length} failed batch(es)...`);
+    setError(null);
+    // This run's warnings replace the old ones as they stream in
+    setResult({ ...previous, warnings: [], failedShards: [] });
 
     try {
       const plainFiles = files.map(f => f.file);
-      const data = await analyzeGroceryAds(
+      const data = await retryFailedShards(
+        previous,
         groceryList,
         plainFiles,
-        (status) => setLoadingStatus(status)
+        createPipelineListener(controller),
+        { recorder: fixtureRecorder || undefined, signal: controller.signal, cache: getSharedResponseCache() }
       );
+      if (!isCurrentRun(controller)) return;
       setResult(data);
+      await saveToHistory(groceryList, plainFiles, data);
     } catch (err: any) {
+      // Put the failed batches back so they can be retried again (unless changed files cleared the results)
+      if (isAbortError(err)) {
+        setResult(prev => prev && previous);
+        return;
+      }
+      if (!isCurrentRun(controller)) return;
       console.error(err);
-      setError(err.message || "An unexpected error occurred while analyzing the ads.");
+      setResult(previous);
+      failPipeline(err.message || "Unknown error");
+      setError(err.message || "An unexpected error occurred while retrying the failed batches.");
     } finally {
-      setLoadingStatus(null);
+      finishRun(controller);
     }
   };
 
+  // Forget cached Agent 1-3 responses so the next run scans the ads again
+  const handleClearCache = async () => {
+    try {
+      await getSharedResponseCache().clear();
+      setCacheCleared(true);
+    } catch (err: any) {
+      logger.error('Failed to clear cached model responses', err);
+      setError(`Could not clear cached model responses: ${err.message || err}`);
+    }
+  };
+
+  // An imported inventory replaces the one on screen and stands in for the uploaded ads until they change
+  const handleImportInventory = async (file: File) => {
+    try {
+      const { inventory, categorizedDeals } = await importInventoryFile(file);
+      const data: AnalysisResult = {
+        matches: [],
+        categorizedDeals,
+        inventory,
+        summary: `Imported ${inventory.length} items from ${file.name}. Press Find Deals to match your list against them.`,
+      };
+      setResult(data);
+      setScannedFiles(files);
+      setError(null);
+      setPipeline(initialPipelineState);
+      setActiveTab('explorer');
+      await saveToHistory('', [file], data);
+    } catch (err: any) {
+      logger.error('Failed to import inventory', err);
+      setError(err.message || "Could not import the inventory file.");
+    }
+  };
+
+  const handleOpenRun = (run: AnalysisRunRecord) => {
+    setResult(run.result);
+    setScannedFiles(null);
+    setGroceryList(run.groceryList);
+    setError(null);
+    setActiveTab('results');
+  };
+
   const addToShoppingList = (match: GroceryMatch) => {
     setSavedDeals(prev => {
       // Prevent duplicates based on ID
@@ -99,7 +409,7 @@ const App: React.FC = () => {
         {error && (
           <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3 text-red-700 animate-fade-in">
             <AlertCircle className="w-5 h-5 shrink-0 mt-0.5" />
-            <p className="text-sm font-medium">{error}</p>
+            <p className="text-sm font-medium whitespace-pre-line">{error}</p>
           </div>
         )}
 
@@ -120,13 +430,32 @@ const App: React.FC = () => {
                 files={files}
                 onFilesSelected={handleFilesSelected}
                 onRemoveFile={handleRemoveFile}
-                disabled={!!loadingStatus}
+                disabled={!!loadingStatus && offlineMode}
               />
             </section>
 
+            <label className="flex items-start gap-3 bg-white border border-slate-200 rounded-lg p-4 shadow-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={offlineMode}
+                onChange={(e) => setOfflineMode(e.target.checked)}
+                disabled={!!loadingStatus}
+                className="mt-0.5 accent-emerald-600"
+              />
+              <span className="text-sm">
+                <span className="flex items-center gap-1.5 font-medium text-slate-800">
+                  <WifiOff className="w-4 h-4 text-slate-500" />
+                  Offline matching
+                </span>
+                <span className="block text-xs text-slate-500 mt-0.5">
+                  Match your list against saved inventories on this device, without any AI model calls. Uploaded ads are not scanned.
+                </span>
+              </span>
+            </label>
+
             <button
               onClick={handleAnalyze}
-              disabled={!!loadingStatus || !groceryList.trim() || files.length === 0}
+              disabled={!!loadingStatus || !groceryList.trim()}
               className="w-full bg-emerald-600 hover:bg-emerald-700 disabled:bg-slate-300 disabled:cursor-not-allowed text-white font-bold py-4 px-6 rounded-xl shadow-sm hover:shadow-lg transition-all transform active:scale-[0.98] flex items-center justify-center gap-2 text-lg"
             >
               {loadingStatus ? (
@@ -142,30 +471,45 @@ const App: React.FC = () => {
               )}
             </button>
 
-            <div className="bg-white border border-slate-200 rounded-lg p-4 shadow-sm">
-              <div className="flex items-center gap-2 mb-2 text-slate-800 font-medium">
-                <Bot className="w-4 h-4 text-emerald-600" />
-                Multi-Agent Workflow
-              </div>
-              <div className="space-y-2">
-                <div className={`flex items-center gap-2 text-xs ${loadingStatus && loadingStatus.includes('Agent 1') ? 'text-emerald-600 font-bold' : 'text-slate-400'}`}>
-                  <div className={`w-2 h-2 rounded-full ${loadingStatus && loadingStatus.includes('Agent 1') ? 'bg-emerald-500 animate-pulse' : 'bg-slate-200'}`} />
-                  Agent 1: Vision Extractor
-                </div>
-                <div className={`flex items-center gap-2 text-xs ${loadingStatus && loadingStatus.includes('Agent 2') ? 'text-emerald-600 font-bold' : 'text-slate-400'}`}>
-                  <div className={`w-2 h-2 rounded-full ${loadingStatus && loadingStatus.includes('Agent 2') ? 'bg-emerald-500 animate-pulse' : 'bg-slate-200'}`} />
-                  Agent 2: Inventory Librarian
-                </div>
-                <div className={`flex items-center gap-2 text-xs ${loadingStatus && loadingStatus.includes('Agent 3') ? 'text-emerald-600 font-bold' : 'text-slate-400'}`}>
-                  <div className={`w-2 h-2 rounded-full ${loadingStatus && loadingStatus.includes('Agent 3') ? 'bg-emerald-500 animate-pulse' : 'bg-slate-200'}`} />
-                  Agent 3: List Interpreter
-                </div>
-                <div className={`flex items-center gap-2 text-xs ${loadingStatus && loadingStatus.includes('Agent 4') ? 'text-emerald-600 font-bold' : 'text-slate-400'}`}>
-                  <div className={`w-2 h-2 rounded-full ${loadingStatus && loadingStatus.includes('Agent 4') ? 'bg-emerald-500 animate-pulse' : 'bg-slate-200'}`} />
-                  Agent 4: Deal Matcher
-                </div>
+            {loadingStatus && (
+              <button
+                onClick={handleCancel}
+                className="w-full -mt-3 px-4 py-2 bg-white hover:bg-red-50 text-slate-600 hover:text-red-600 rounded-xl transition-colors duration-200 border border-slate-300 hover:border-red-200 flex items-center justify-center gap-2 text-sm font-semibold"
+              >
+                <XCircle className="w-4 h-4" />
+                Cancel
+              </button>
+            )}
+
+            {!offlineMode && !loadingStatus && (
+              <div className="-mt-3 space-y-2">
+                {(hasCurrentInventory || files.length === 0) && (
+                  <p className="text-xs text-slate-500 text-center">
+                    {result?.inventory.length
+                      ? `Find Deals matches your list against the ${result.inventory.length}-item inventory below, without re-scanning the ads.`
+                      : 'No ads uploaded: Find Deals matches your list against the latest saved inventory.'}
+                  </p>
+                )}
+                {files.length > 0 && (
+                  <button
+                    onClick={handleBuildInventory}
+                    className="w-full px-4 py-2 bg-white hover:bg-emerald-50 text-emerald-700 rounded-xl transition-colors duration-200 border border-emerald-200 flex items-center justify-center gap-2 text-sm font-semibold"
+                  >
+                    <PackageSearch className="w-4 h-4" />
+                    {hasCurrentInventory ? 'Rebuild Inventory' : 'Build Inventory Only'}
+                  </button>
+                )}
               </div>
-            </div>
+            )}
+
+            <PipelineProgress state={pipeline} />
+
+            <InventoryTransfer
+              inventory={result?.inventory || []}
+              categorizedDeals={result?.categorizedDeals || []}
+              onImport={handleImportInventory}
+              disabled={!!loadingStatus}
+            />
 
             {/* Download Log Button */}
             {result && (
@@ -177,6 +521,27 @@ const App: React.FC = () => {
                 Download Pipeline Log
               </button>
             )}
+
+            {fixtureRecorder && fixtureRecorder.size > 0 && !loadingStatus && (
+              <button
+                onClick={() => fixtureRecorder.download()}
+                className="w-full px-4 py-3 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-xl transition-colors duration-200 border border-slate-300 flex items-center justify-center gap-2 text-sm font-semibold"
+              >
+                <Bot className="w-4 h-4" />
+                Download Model Fixture ({fixtureRecorder.size} calls)
+              </button>
+            )}
+
+            {!offlineMode && !loadingStatus && (
+              <button
+                onClick={handleClearCache}
+                disabled={cacheCleared}
+                className="w-full px-4 py-3 bg-slate-100 hover:bg-slate-200 disabled:hover:bg-slate-100 disabled:text-slate-400 text-slate-700 rounded-xl transition-colors duration-200 border border-slate-300 flex items-center justify-center gap-2 text-sm font-semibold"
+              >
+                <Trash2 className="w-4 h-4" />
+                {cacheCleared ? 'Cached Model Responses Cleared' : 'Clear Cached Model Responses'}
+              </button>
+            )}
           </div>
 
           {/* Right Column: Results & Shopping List */}
@@ -225,12 +590,30 @@ const App: React.FC = () => {
                     </span>
                   )}
                 </button>
+                <button
+                  onClick={() => setActiveTab('history')}
+                  className={`flex-1 py-4 px-2 text-sm font-bold flex items-center justify-center gap-2 transition-colors min-w-[120px] ${activeTab === 'history'
+                    ? 'text-slate-800 border-b-2 border-slate-800 bg-slate-50'
+                    : 'text-slate-500 hover:text-slate-700 hover:bg-slate-50'
+                    }`}
+                >
+                  <History className="w-4 h-4" />
+                  History
+                </button>
               </div>
 
               {/* Content */}
               <div className="p-6 flex-grow bg-slate-50/50">
+                {/* Partial results stay visible while later agents are still running */}
+                {loadingStatus && (activeTab === 'results' ? !!result?.summary : activeTab === 'explorer' && !!result?.categorizedDeals.length) && (
+                  <div className="mb-4 flex items-center gap-2 text-xs font-medium text-emerald-700 bg-emerald-50 border border-emerald-100 rounded-lg px-3 py-2">
+                    <div className="w-3 h-3 border-2 border-emerald-200 border-t-emerald-600 rounded-full animate-spin" />
+                    {loadingStatus}
+                  </div>
+                )}
+
                 {activeTab === 'results' && (
-                  loadingStatus ? (
+                  loadingStatus && !result?.summary ? (
                     <div className="flex flex-col items-center justify-center h-full min-h-[400px]">
                       <div className="relative mb-4">
                         <div className="w-16 h-16 border-4 border-emerald-100 border-t-emerald-500 rounded-full animate-spin" />
@@ -239,7 +622,17 @@ const App: React.FC = () => {
                         </div>
                       </div>
                       <h3 className="text-lg font-bold text-slate-800">{loadingStatus}</h3>
-                      <p className="text-slate-500 text-sm mt-2">Gemini 2.5 is coordinating multiple agents.</p>
+                      <p className="text-slate-500 text-sm mt-2">
+                        {offlineMode ? 'Matching on this device with local embeddings.' : 'Gemini 2.5 is coordinating multiple agents.'}
+                      </p>
+                      {!!result?.categorizedDeals.length && (
+                        <button
+                          onClick={() => setActiveTab('explorer')}
+                          className="mt-4 text-sm font-semibold text-purple-600 hover:text-purple-700 hover:underline"
+                        >
+                          Browse the {result.categorizedDeals.reduce((sum, cat) => sum + cat.items.length, 0)} deals found so far
+                        </button>
+                      )}
                     </div>
                   ) : (
                     <ResultsDisplay
@@ -247,12 +640,14 @@ const App: React.FC = () => {
                       isLoading={false}
                       savedDeals={savedDeals}
                       onAddToShoppingList={addToShoppingList}
+                      priceHistory={priceHistory}
+                      onRetryFailed={loadingStatus || offlineMode ? undefined : handleRetryFailed}
                     />
                   )
                 )}
 
                 {activeTab === 'explorer' && (
-                  loadingStatus ? (
+                  loadingStatus && !result?.categorizedDeals.length ? (
                     <div className="flex flex-col items-center justify-center h-full min-h-[400px]">
                       <div className="w-16 h-16 bg-slate-100 rounded-full flex items-center justify-center animate-pulse mb-4">
                         <Compass className="w-8 h-8 text-slate-300" />
@@ -265,6 +660,8 @@ const App: React.FC = () => {
                       isLoading={false}
                       savedDeals={savedDeals}
                       onAddToShoppingList={addToShoppingList}
+                      priceHistory={priceHistory}
+                      pages={result?.pages}
                     />
                   )
                 )}
@@ -275,6 +672,13 @@ const App: React.FC = () => {
                     onRemove={removeFromShoppingList}
                   />
                 )}
+
+                {activeTab === 'history' && (
+                  <HistoryBrowser
+                    refreshKey={historyVersion}
+                    onOpenRun={handleOpenRun}
+                  />
+                )}
               </div>
             </section>
           </div>
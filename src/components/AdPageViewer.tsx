@@ -0,0 +1,91 @@
+import React, { useEffect, useRef } from 'react';
+import { FileText, X } from 'lucide-react';
+import { AdPageImage, GroceryMatch } from '../types';
+import { boxToStyle } from '../utils/boundingBox';
+
+interface AdPageViewerProps {
+  deal: GroceryMatch;
+  page: AdPageImage;
+  onClose: () => void;
+}
+
+const AdPageViewer: React.FC<AdPageViewerProps> = ({ deal, page, onClose }) => {
+  const highlightRef = useRef<HTMLDivElement>(null);
+  // Other listings merged into this deal
+  const otherSources = (deal.sources || []).filter(
+    source => !(source.fileName === page.fileName && source.pageNumber === page.pageNumber)
+  );
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // Bring the highlighted tile into view once the page has its size
+  const handleImageLoad = () => {
+    highlightRef.current?.scrollIntoView({ block: 'center', inline: 'center' });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/70 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden animate-fade-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between gap-4 p-4 border-b border-slate-100">
+          <div className="min-w-0">
+            <h3 className="font-bold text-slate-800 truncate">{deal.productName || deal.itemName}</h3>
+            <p className="text-xs text-slate-500 flex items-center gap-1 mt-0.5">
+              <FileText className="w-3 h-3" />
+              <span className="truncate">{page.fileName} · page {page.pageNumber}</span>
+              <span className="text-slate-300">|</span>
+              <span className="font-semibold text-emerald-600">{deal.price}</span>
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1.5 rounded-lg text-slate-400 hover:text-slate-700 hover:bg-slate-100 transition-colors"
+            aria-label="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="overflow-auto bg-slate-100 p-4">
+          <div className="relative mx-auto w-fit">
+            <img
+              src={`data:${page.mimeType};base64,${page.data}`}
+              alt={`${page.fileName} page ${page.pageNumber}`}
+              className="block max-w-full h-auto rounded shadow-sm"
+              onLoad={handleImageLoad}
+            />
+            {deal.sourceBox && (
+              <div
+                ref={highlightRef}
+                className="absolute border-[3px] border-amber-400 bg-amber-300/20 rounded shadow-[0_0_0_9999px_rgba(15,23,42,0.35)] pointer-events-none"
+                style={boxToStyle(deal.sourceBox)}
+              />
+            )}
+          </div>
+        </div>
+
+        {!deal.sourceBox && (
+          <p className="text-xs text-slate-500 p-3 border-t border-slate-100 text-center">
+            The exact position of this item on the page was not reported.
+          </p>
+        )}
+
+        {otherSources.length > 0 && (
+          <p className="text-xs text-slate-500 p-3 border-t border-slate-100 text-center">
+            Also listed on: {otherSources.map(source => `${source.fileName}${source.pageNumber ? ` p.${source.pageNumber}` : ''}`).join(', ')}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AdPageViewer;
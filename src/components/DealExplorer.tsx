@@ -1,16 +1,25 @@
 import React, { useState, useMemo } from 'react';
-import { Compass, Filter, Check, Plus, Store, Scale, Calendar, AlertCircle, ChevronDown, ChevronUp } from 'lucide-react';
-import { DealCategory, GroceryMatch } from '../types';
+import { Compass, Filter, Check, Plus, Store, Scale, Calendar, AlertCircle, ChevronDown, ChevronUp, ScanSearch } from 'lucide-react';
+import { AdPageImage, DealCategory, GroceryMatch } from '../types';
+import { compareByPrice, computeSavings, describePrice, getParsedPrice } from '../utils/pricing';
+import { formatUnitPrice, getUnitPrice } from '../utils/units';
+import { PriceHistoryIndex, scoreDeal } from '../services/priceHistory';
+import { findAdPage } from '../services/adPages';
+import DealScoreBadge from './DealScoreBadge';
+import AdPageViewer from './AdPageViewer';
 
 interface DealExplorerProps {
   categories: DealCategory[];
   savedDeals: GroceryMatch[];
   onAddToShoppingList: (match: GroceryMatch) => void;
   isLoading: boolean;
+  priceHistory: PriceHistoryIndex | null;
+  pages?: AdPageImage[];
 }
 
-const DealExplorer: React.FC<DealExplorerProps> = ({ categories, savedDeals, onAddToShoppingList, isLoading }) => {
+const DealExplorer: React.FC<DealExplorerProps> = ({ categories, savedDeals, onAddToShoppingList, isLoading, priceHistory, pages }) => {
   const [selectedStore, setSelectedStore] = useState<string>('All');
+  const [viewingDeal, setViewingDeal] = useState<GroceryMatch | null>(null);
 
   // Initialized with empty Set to ensure categories are collapsed by default.
   const [expandedCategories, setExpandedCategories] = useState<Set<string>>(new Set());
@@ -24,11 +33,11 @@ const DealExplorer: React.FC<DealExplorerProps> = ({ categories, savedDeals, onA
   }, [categories]);
 
   const filteredCategories = useMemo(() => {
-    if (selectedStore === 'All') return categories;
-
     return categories.map(cat => ({
       ...cat,
-      items: cat.items.filter(item => item.storeName === selectedStore)
+      items: cat.items
+        .filter(item => selectedStore === 'All' || item.storeName === selectedStore)
+        .sort(compareByPrice)
     })).filter(cat => cat.items.length > 0);
   }, [categories, selectedStore]);
 
@@ -36,6 +45,8 @@ const DealExplorer: React.FC<DealExplorerProps> = ({ categories, savedDeals, onA
     return savedDeals.some(s => s.id === match.id);
   };
 
+  const viewingPage = viewingDeal ? findAdPage(pages, viewingDeal) : undefined;
+
   const toggleCategory = (category: string) => {
     setExpandedCategories(prev => {
       const newSet = new Set(prev);
@@ -149,86 +160,119 @@ const DealExplorer: React.FC<DealExplorerProps> = ({ categories, savedDeals, onA
 
               {isExpanded && (
                 <div className="divide-y divide-slate-100 animate-fade-in">
-                  {cat.items.map((deal) => (
-                    <div key={deal.id} className="p-4 hover:bg-slate-50 transition-colors flex flex-col sm:flex-row justify-between gap-4">
-                      <div className="flex-1">
-                        <div className="flex items-start justify-between">
-                          <div className="flex flex-col">
-                            {deal.brand && (
-                              <span className="text-xs font-bold text-slate-600 uppercase tracking-wider mb-0.5 bg-slate-100 px-1.5 py-0.5 rounded w-fit">
-                                {deal.brand}
-                              </span>
-                            )}
-                            <h4 className="font-bold text-slate-800 text-base">{deal.productName || deal.itemName}</h4>
-                            <div className="flex items-center gap-2 text-xs text-slate-500 mt-1 mb-2">
-                              <Store className="w-3 h-3" />
-                              <span className="font-medium">{deal.storeName}</span>
-                              {deal.quantity && (
-                                <>
-                                  <span className="text-slate-300">|</span>
-                                  <span className="flex items-center gap-1 font-medium text-slate-700">
-                                    <Scale className="w-3 h-3" /> {deal.quantity}
-                                  </span>
-                                </>
+                  {cat.items.map((deal) => {
+                    const priceTag = describePrice(getParsedPrice(deal));
+                    const savings = computeSavings(deal);
+                    const unitPrice = getUnitPrice(deal);
+                    const dealScore = scoreDeal(deal, priceHistory);
+                    const hasAdPage = !!findAdPage(pages, deal);
+                    return (
+                      <div key={deal.id} className="p-4 hover:bg-slate-50 transition-colors flex flex-col sm:flex-row justify-between gap-4">
+                        <div className="flex-1">
+                          <div className="flex items-start justify-between">
+                            <div className="flex flex-col">
+                              {deal.brand && (
+                                <span className="text-xs font-bold text-slate-600 uppercase tracking-wider mb-0.5 bg-slate-100 px-1.5 py-0.5 rounded w-fit">
+                                  {deal.brand}
+                                </span>
                               )}
+                              <h4 className="font-bold text-slate-800 text-base">{deal.productName || deal.itemName}</h4>
+                              <div className="flex items-center gap-2 text-xs text-slate-500 mt-1 mb-2">
+                                <Store className="w-3 h-3" />
+                                <span className="font-medium">{deal.storeName}</span>
+                                {deal.quantity && (
+                                  <>
+                                    <span className="text-slate-300">|</span>
+                                    <span className="flex items-center gap-1 font-medium text-slate-700">
+                                      <Scale className="w-3 h-3" /> {deal.quantity}
+                                    </span>
+                                  </>
+                                )}
+                              </div>
+                            </div>
+                            <div className="text-right sm:hidden">
+                              <span className="block text-lg font-bold text-emerald-600">{deal.price}</span>
                             </div>
                           </div>
-                          <div className="text-right sm:hidden">
-                            <span className="block text-lg font-bold text-emerald-600">{deal.price}</span>
+
+                          <p className="text-sm text-slate-600 bg-slate-50/80 p-1.5 rounded border border-slate-100/50 inline-block">{deal.dealDescription}</p>
+
+                          <div className="flex items-center gap-3 mt-2 flex-wrap">
+                            <DealScoreBadge dealScore={dealScore} />
+                            {deal.validDates && (
+                              <span className="flex items-center gap-1 text-[10px] text-slate-400">
+                                <Calendar className="w-3 h-3" /> {deal.validDates}
+                              </span>
+                            )}
+                            {deal.itemLimit && (
+                              <span className="flex items-center gap-1 text-[10px] text-amber-600">
+                                <AlertCircle className="w-3 h-3" /> {deal.itemLimit}
+                              </span>
+                            )}
+                            {hasAdPage && (
+                              <button
+                                onClick={() => setViewingDeal(deal)}
+                                className="flex items-center gap-1 text-[10px] font-medium text-purple-600 hover:text-purple-700 hover:underline"
+                              >
+                                <ScanSearch className="w-3 h-3" /> View in ad
+                              </button>
+                            )}
                           </div>
                         </div>
 
-                        <p className="text-sm text-slate-600 bg-slate-50/80 p-1.5 rounded border border-slate-100/50 inline-block">{deal.dealDescription}</p>
-
-                        <div className="flex items-center gap-3 mt-2">
-                          {deal.validDates && (
-                            <span className="flex items-center gap-1 text-[10px] text-slate-400">
-                              <Calendar className="w-3 h-3" /> {deal.validDates}
-                            </span>
-                          )}
-                          {deal.itemLimit && (
-                            <span className="flex items-center gap-1 text-[10px] text-amber-600">
-                              <AlertCircle className="w-3 h-3" /> {deal.itemLimit}
-                            </span>
-                          )}
-                        </div>
-                      </div>
+                        <div className="flex flex-row sm:flex-col items-center sm:items-end justify-between sm:justify-center gap-3 min-w-[100px] border-t sm:border-t-0 sm:border-l border-slate-100 pt-3 sm:pt-0 sm:pl-4">
+                          <div className="text-right hidden sm:block">
+                            {deal.originalPrice && (
+                              <span className="text-xs text-slate-400 line-through block">{deal.originalPrice}</span>
+                            )}
+                            <span className="block text-lg font-bold text-emerald-600">{deal.price}</span>
+                            {unitPrice && (
+                              <span className="block text-[10px] font-medium text-slate-500">{formatUnitPrice(unitPrice)}</span>
+                            )}
+                            {priceTag && (
+                              <span className="block text-[10px] font-semibold text-slate-500">{priceTag}</span>
+                            )}
+                            {savings !== null && (
+                              <span className="block text-[10px] font-bold text-emerald-700">Save ${savings.toFixed(2)}</span>
+                            )}
+                          </div>
 
-                      <div className="flex flex-row sm:flex-col items-center sm:items-end justify-between sm:justify-center gap-3 min-w-[100px] border-t sm:border-t-0 sm:border-l border-slate-100 pt-3 sm:pt-0 sm:pl-4">
-                        <div className="text-right hidden sm:block">
-                          {deal.originalPrice && (
-                            <span className="text-xs text-slate-400 line-through block">{deal.originalPrice}</span>
-                          )}
-                          <span className="block text-lg font-bold text-emerald-600">{deal.price}</span>
+                          <button
+                            onClick={() => onAddToShoppingList(deal)}
+                            disabled={isSaved(deal)}
+                            className={`text-sm font-medium px-3 py-1.5 rounded-lg flex items-center gap-1.5 transition-all w-full sm:w-auto justify-center ${isSaved(deal)
+                                ? 'bg-emerald-50 text-emerald-600 border border-emerald-100 cursor-default'
+                                : 'bg-slate-900 text-white hover:bg-emerald-600 hover:shadow-md'
+                              }`}
+                          >
+                            {isSaved(deal) ? (
+                              <>
+                                <Check className="w-3.5 h-3.5" /> Added
+                              </>
+                            ) : (
+                              <>
+                                <Plus className="w-3.5 h-3.5" /> Add
+                              </>
+                            )}
+                          </button>
                         </div>
-
-                        <button
-                          onClick={() => onAddToShoppingList(deal)}
-                          disabled={isSaved(deal)}
-                          className={`text-sm font-medium px-3 py-1.5 rounded-lg flex items-center gap-1.5 transition-all w-full sm:w-auto justify-center ${isSaved(deal)
-                              ? 'bg-emerald-50 text-emerald-600 border border-emerald-100 cursor-default'
-                              : 'bg-slate-900 text-white hover:bg-emerald-600 hover:shadow-md'
-                            }`}
-                        >
-                          {isSaved(deal) ? (
-                            <>
-                              <Check className="w-3.5 h-3.5" /> Added
-                            </>
-                          ) : (
-                            <>
-                              <Plus className="w-3.5 h-3.5" /> Add
-                            </>
-                          )}
-                        </button>
                       </div>
-                    </div>
-                  ))}
+                    );
+                  })}
                 </div>
               )}
             </div>
           );
         })}
       </div>
+
+      {viewingDeal && viewingPage && (
+        <AdPageViewer
+          deal={viewingDeal}
+          page={viewingPage}
+          onClose={() => setViewingDeal(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,64 @@
+import React from 'react';
+import { TrendingDown } from 'lucide-react';
+import { DealScore, PriceHistoryPoint } from '../types';
+
+interface DealScoreBadgeProps {
+  dealScore: DealScore | null;
+}
+
+const LABEL_STYLES: Record<DealScore['label'], string> = {
+  Great: 'bg-emerald-100 text-emerald-700 border-emerald-200',
+  Good: 'bg-teal-50 text-teal-700 border-teal-200',
+  Fair: 'bg-amber-50 text-amber-700 border-amber-200',
+  Poor: 'bg-red-50 text-red-600 border-red-200',
+  New: 'bg-slate-50 text-slate-500 border-slate-200',
+};
+
+const Sparkline: React.FC<{ points: PriceHistoryPoint[]; current: number }> = ({ points, current }) => {
+  const width = 56;
+  const height = 16;
+  const prices = [...points.map(p => p.price), current];
+  const min = Math.min(...prices);
+  const max = Math.max(...prices);
+  const range = max - min || 1;
+
+  const coords = prices.map((price, i) => {
+    const x = prices.length > 1 ? (i / (prices.length - 1)) * width : width / 2;
+    const y = height - ((price - min) / range) * (height - 2) - 1;
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+  const [lastX, lastY] = coords[coords.length - 1].split(',');
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className="overflow-visible">
+      <polyline points={coords.join(' ')} fill="none" stroke="currentColor" strokeWidth={1.5} strokeLinejoin="round" opacity={0.6} />
+      <circle cx={lastX} cy={lastY} r={2} fill="currentColor" />
+    </svg>
+  );
+};
+
+const DealScoreBadge: React.FC<DealScoreBadgeProps> = ({ dealScore }) => {
+  if (!dealScore) return null;
+
+  const tooltip = [
+    dealScore.historicalLow !== null ? `Low: $${dealScore.historicalLow.toFixed(2)}` : null,
+    dealScore.medianPrice !== null ? `Median: $${dealScore.medianPrice.toFixed(2)}` : null,
+    dealScore.typicalRegular !== null ? `Regular: $${dealScore.typicalRegular.toFixed(2)}` : null,
+    `${dealScore.points.length} past price${dealScore.points.length !== 1 ? 's' : ''}`,
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1.5 text-[10px] font-bold px-1.5 py-0.5 rounded border ${LABEL_STYLES[dealScore.label]}`}
+      title={tooltip}
+    >
+      {dealScore.label === 'Great' && <TrendingDown className="w-3 h-3" />}
+      {dealScore.label === 'New' ? 'No History' : `${dealScore.label} Deal${dealScore.score !== null ? ` ${dealScore.score}` : ''}`}
+      {dealScore.points.length > 0 && (
+        <Sparkline points={dealScore.points} current={dealScore.currentPrice} />
+      )}
+    </span>
+  );
+};
+
+export default DealScoreBadge;
@@ -0,0 +1,148 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { History, Store, Calendar, FolderOpen, Trash2, FileText, AlertCircle } from 'lucide-react';
+import { AnalysisRunRecord } from '../types';
+import { deleteAnalysisRun, listAnalysisRuns } from '../services/historyStore';
+import { formatWeekKey } from '../utils/weeks';
+
+interface HistoryBrowserProps {
+  refreshKey: number;
+  onOpenRun: (run: AnalysisRunRecord) => void;
+}
+
+const HistoryBrowser: React.FC<HistoryBrowserProps> = ({ refreshKey, onOpenRun }) => {
+  const [runs, setRuns] = useState<AnalysisRunRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    listAnalysisRuns()
+      .then(data => {
+        if (!cancelled) setRuns(data);
+      })
+      .catch(err => {
+        console.error('Failed to load history:', err);
+        if (!cancelled) setError(err.message || 'Could not load saved analyses.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  // Group runs by the most recent week they cover
+  const runsByWeek = useMemo(() => {
+    const groups: Record<string, AnalysisRunRecord[]> = {};
+    runs.forEach(run => {
+      const week = run.weekKeys[run.weekKeys.length - 1] || run.createdAt.slice(0, 10);
+      if (!groups[week]) {
+        groups[week] = [];
+      }
+      groups[week].push(run);
+    });
+    return groups;
+  }, [runs]);
+
+  const sortedWeeks = useMemo(() => Object.keys(runsByWeek).sort().reverse(), [runsByWeek]);
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteAnalysisRun(id);
+      setRuns(prev => prev.filter(run => run.id !== id));
+    } catch (err: any) {
+      console.error('Failed to delete run:', err);
+      setError(err.message || 'Could not delete this analysis.');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full min-h-[300px] text-slate-400">
+        <div className="w-10 h-10 border-4 border-slate-100 border-t-slate-400 rounded-full animate-spin mb-4" />
+        <p className="text-sm font-medium">Loading saved analyses...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3 text-red-700">
+        <AlertCircle className="w-5 h-5 shrink-0 mt-0.5" />
+        <p className="text-sm font-medium">{error}</p>
+      </div>
+    );
+  }
+
+  if (runs.length === 0) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-8 flex flex-col items-center justify-center text-center min-h-[300px]">
+        <div className="bg-slate-100 p-4 rounded-full mb-4">
+          <History className="w-8 h-8 text-slate-400" />
+        </div>
+        <h3 className="text-lg font-medium text-slate-800">No saved analyses</h3>
+        <p className="text-slate-500 mt-1">
+          Every analysis is saved here so you can reopen past weekly ads without re-uploading.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {sortedWeeks.map(week => (
+        <div key={week}>
+          <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider mb-3 flex items-center gap-2">
+            <Calendar className="w-4 h-4" />
+            {/^\d{4}-\d{2}-\d{2}$/.test(week) ? formatWeekKey(week) : week}
+          </h3>
+          <div className="space-y-3">
+            {runsByWeek[week].map(run => (
+              <div key={run.id} className="bg-white rounded-xl border border-slate-200 shadow-sm p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap mb-1">
+                    {run.storeNames.map(store => (
+                      <span key={store} className="text-xs font-semibold text-slate-700 bg-slate-100 px-2 py-0.5 rounded-full border border-slate-200 flex items-center gap-1">
+                        <Store className="w-3 h-3" /> {store}
+                      </span>
+                    ))}
+                  </div>
+                  <p className="text-xs text-slate-500">
+                    Saved {new Date(run.createdAt).toLocaleString()} · {run.itemCount} items · {run.result.matches.length} matches
+                  </p>
+                  {run.fileNames.length > 0 && (
+                    <p className="text-xs text-slate-400 mt-1 flex items-center gap-1 truncate">
+                      <FileText className="w-3 h-3 shrink-0" /> {run.fileNames.join(', ')}
+                    </p>
+                  )}
+                  {run.groceryList && (
+                    <p className="text-sm text-slate-600 mt-2 line-clamp-2">{run.groceryList}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => onOpenRun(run)}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm font-medium bg-emerald-600 text-white hover:bg-emerald-700 shadow-sm transition-all active:scale-95"
+                  >
+                    <FolderOpen className="w-4 h-4" /> Open
+                  </button>
+                  <button
+                    onClick={() => handleDelete(run.id)}
+                    className="text-slate-400 hover:text-red-500 p-2 hover:bg-red-50 rounded-lg transition-colors"
+                    title="Delete from history"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default HistoryBrowser;
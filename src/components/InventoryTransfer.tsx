@@ -0,0 +1,61 @@
+import React, { useRef } from 'react';
+import { Download, Upload, Package } from 'lucide-react';
+import { DealCategory, MasterInventoryItem } from '../types';
+import { downloadInventory } from '../services/inventoryTransfer';
+
+interface InventoryTransferProps {
+  inventory: MasterInventoryItem[];
+  categorizedDeals: DealCategory[];
+  onImport: (file: File) => void;
+  disabled: boolean;
+}
+
+const InventoryTransfer: React.FC<InventoryTransferProps> = ({ inventory, categorizedDeals, onImport, disabled }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const canExport = inventory.length > 0 && !disabled;
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImport(file);
+    // Reset so the same file can be imported again after editing it
+    e.target.value = '';
+  };
+
+  const buttonClass = 'flex-1 px-3 py-2 bg-slate-100 hover:bg-slate-200 disabled:hover:bg-slate-100 disabled:text-slate-400 disabled:cursor-not-allowed text-slate-700 rounded-lg transition-colors duration-200 border border-slate-300 flex items-center justify-center gap-1.5 text-xs font-semibold';
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-lg p-4 shadow-sm">
+      <div className="flex items-center gap-2 mb-1 text-slate-800 font-medium">
+        <Package className="w-4 h-4 text-emerald-600" />
+        Inventory
+        {inventory.length > 0 && <span className="ml-auto text-xs font-normal text-slate-500">{inventory.length} items</span>}
+      </div>
+      <p className="text-xs text-slate-500 mb-3">
+        Share the inventory or edit it in a spreadsheet, then import it to match lists without scanning the ads again.
+      </p>
+      <div className="flex gap-2">
+        <button onClick={() => downloadInventory(inventory, categorizedDeals, 'json')} disabled={!canExport} className={buttonClass}>
+          <Download className="w-3.5 h-3.5" />
+          JSON
+        </button>
+        <button onClick={() => downloadInventory(inventory, categorizedDeals, 'csv')} disabled={!canExport} className={buttonClass}>
+          <Download className="w-3.5 h-3.5" />
+          CSV
+        </button>
+        <button onClick={() => inputRef.current?.click()} disabled={disabled} className={buttonClass}>
+          <Upload className="w-3.5 h-3.5" />
+          Import
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".json,.csv,application/json,text/csv"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default InventoryTransfer;
@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from 'react';
+import { Bot, AlertCircle } from 'lucide-react';
+import { PipelineStageName } from '../services/pipelineEvents';
+import {
+  getOverallProgress,
+  getStageDuration,
+  getStageProgress,
+  isPipelineRunning,
+  PIPELINE_STAGES,
+  PipelineState,
+  StageProgress,
+  StageStatus
+} from '../services/pipelineState';
+
+interface PipelineProgressProps {
+  state: PipelineState;
+}
+
+const STAGE_LABELS: Record<PipelineStageName, { title: string; unit: string }> = {
+  extracting: { title: 'Agent 1: Vision Extractor', unit: 'items' },
+  normalizing: { title: 'Agent 2: Inventory Librarian', unit: 'items' },
+  interpreting: { title: 'Agent 3: List Interpreter', unit: 'keywords' },
+  matching: { title: 'Agent 4: Deal Matcher', unit: 'deals' },
+};
+
+const DOT_STYLES: Record<StageStatus, string> = {
+  pending: 'bg-slate-200',
+  active: 'bg-emerald-500 animate-pulse',
+  done: 'bg-emerald-500',
+  skipped: 'bg-slate-300',
+  failed: 'bg-red-500',
+  cancelled: 'bg-amber-400',
+};
+
+const TEXT_STYLES: Record<StageStatus, string> = {
+  pending: 'text-slate-400',
+  active: 'text-emerald-600 font-bold',
+  done: 'text-slate-700',
+  skipped: 'text-slate-400',
+  failed: 'text-red-600 font-bold',
+  cancelled: 'text-amber-600',
+};
+
+const formatDuration = (ms: number) => (ms < 60000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`);
+
+const describeStage = (stage: PipelineStageName, progress: StageProgress, now: number): string => {
+  if (progress.status === 'pending') return '';
+  if (progress.status === 'skipped') return 'skipped';
+
+  const parts: string[] = [];
+  if (progress.total > 1) parts.push(`${Math.min(progress.completed, progress.total)}/${progress.total} batches`);
+  if (progress.itemCount > 0) parts.push(`${progress.itemCount} ${STAGE_LABELS[stage].unit}`);
+  if (progress.warningCount > 0) parts.push(`${progress.warningCount} warning${progress.warningCount === 1 ? '' : 's'}`);
+  const duration = getStageDuration(progress, now);
+  if (duration !== null) parts.push(formatDuration(duration));
+  return parts.join(' · ');
+};
+
+const PipelineProgress: React.FC<PipelineProgressProps> = ({ state }) => {
+  const running = isPipelineRunning(state);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick the stage timers while the run is in progress
+  useEffect(() => {
+    if (!running) return;
+    setNow(Date.now());
+    const timer = window.setInterval(() => setNow(Date.now()), 500);
+    return () => window.clearInterval(timer);
+  }, [running]);
+
+  const overall = getOverallProgress(state);
+  const showOverall = state.stage !== 'idle';
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-lg p-4 shadow-sm">
+      <div className="flex items-center gap-2 mb-2 text-slate-800 font-medium">
+        <Bot className="w-4 h-4 text-emerald-600" />
+        Multi-Agent Workflow
+        {showOverall && (
+          <span className={`ml-auto text-xs font-semibold ${state.stage === 'failed' ? 'text-red-600' : 'text-slate-500'}`}>
+            {state.stage === 'failed' ? 'Failed' : state.stage === 'cancelled' ? 'Cancelled' : `${overall}%`}
+            {state.startedAt !== undefined && ` · ${formatDuration((state.finishedAt ?? now) - state.startedAt)}`}
+          </span>
+        )}
+      </div>
+
+      {showOverall && (
+        <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden mb-3">
+          <div
+            className={`h-full rounded-full transition-all duration-300 ${state.stage === 'failed' ? 'bg-red-400' : state.stage === 'cancelled' ? 'bg-amber-400' : 'bg-emerald-500'}`}
+            style={{ width: `${overall}%` }}
+          />
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {PIPELINE_STAGES.map(stage => {
+          const progress = state.stages[stage];
+          const detail = describeStage(stage, progress, now);
+          return (
+            <div key={stage}>
+              <div className={`flex items-center gap-2 text-xs ${TEXT_STYLES[progress.status]}`}>
+                <div className={`w-2 h-2 rounded-full shrink-0 ${DOT_STYLES[progress.status]}`} />
+                {STAGE_LABELS[stage].title}
+                {detail && <span className="ml-auto font-normal text-slate-500">{detail}</span>}
+              </div>
+              {progress.status === 'active' && progress.total > 1 && (
+                <div className="ml-4 mt-1 h-1 bg-slate-100 rounded-full overflow-hidden">
+                  <div className="h-full bg-emerald-400 rounded-full transition-all duration-300" style={{ width: `${getStageProgress(progress)}%` }} />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {state.stage === 'failed' && state.error && (
+        <p className="mt-3 flex items-start gap-1.5 text-xs text-red-600">
+          <AlertCircle className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+          <span>
+            {state.failedStage ? `${STAGE_LABELS[state.failedStage].title} failed: ` : ''}{state.error}
+          </span>
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PipelineProgress;
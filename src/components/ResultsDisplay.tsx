@@ -1,22 +1,32 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { Tag, Store, CheckCircle, AlertTriangle, Filter, ChevronDown, ChevronUp, Package, Calendar, AlertCircle as AlertIcon, Plus, Check, Scale } from 'lucide-react';
-import { AnalysisResult, GroceryMatch } from '../types';
+import { Tag, Store, CheckCircle, AlertTriangle, Filter, ChevronDown, ChevronUp, Package, Calendar, AlertCircle as AlertIcon, Plus, Check, Scale, ScanSearch, ShoppingBag, RotateCcw } from 'lucide-react';
+import { AnalysisResult, GroceryMatch, PipelineWarning } from '../types';
+import { compareByPrice, computeSavings, describePrice, getParsedPrice } from '../utils/pricing';
+import { findBestValue, formatUnitPrice, getUnitPrice, rankByUnitPrice } from '../utils/units';
+import { PriceHistoryIndex, scoreDeal } from '../services/priceHistory';
+import { findAdPage } from '../services/adPages';
+import DealScoreBadge from './DealScoreBadge';
+import AdPageViewer from './AdPageViewer';
 
 interface ResultsDisplayProps {
   result: AnalysisResult | null;
   isLoading: boolean;
   savedDeals: GroceryMatch[];
   onAddToShoppingList: (match: GroceryMatch) => void;
+  priceHistory: PriceHistoryIndex | null;
+  onRetryFailed?: () => void; // Unset while a run is in progress
 }
 
-const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ result, isLoading, savedDeals, onAddToShoppingList }) => {
+const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ result, isLoading, savedDeals, onAddToShoppingList, priceHistory, onRetryFailed }) => {
   const [selectedStore, setSelectedStore] = useState<string>('All');
   const [expandedItems, setExpandedItems] = useState<Set<string>>(new Set());
+  const [viewingDeal, setViewingDeal] = useState<GroceryMatch | null>(null);
 
   // Reset filter and expansion when result changes
   useEffect(() => {
     setSelectedStore('All');
     setExpandedItems(new Set());
+    setViewingDeal(null);
   }, [result]);
 
   // Reset expansion when filter changes
@@ -45,6 +55,10 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ result, isLoading, save
       }
       groups[match.itemName].push(match);
     });
+    // Rank competing matches by price per oz/each, falling back to shelf price
+    Object.keys(groups).forEach(name => {
+      groups[name] = rankByUnitPrice([...groups[name]].sort(compareByPrice));
+    });
     return groups;
   }, [filteredMatches]);
 
@@ -68,6 +82,8 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ result, isLoading, save
     return savedDeals.some(s => s.id === match.id);
   };
 
+  const viewingPage = viewingDeal ? findAdPage(result?.pages, viewingDeal) : undefined;
+
   if (isLoading) {
     return (
       <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-8 flex flex-col items-center justify-center text-center min-h-[400px]">
@@ -116,6 +132,14 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ result, isLoading, save
         </div>
       </div>
 
+      {result.warnings && result.warnings.length > 0 && (
+        <RunWarnings
+          warnings={result.warnings}
+          failedCount={result.failedShards?.length || 0}
+          onRetry={onRetryFailed}
+        />
+      )}
+
       {/* Filter Section */}
       {uniqueStores.length > 0 && (
         <div className="flex flex-col sm:flex-row sm:items-center gap-3 pb-2 border-b border-slate-100">
@@ -182,6 +206,7 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ result, isLoading, save
             {sortedItemNames.map((itemName) => {
               const matches = groupedMatches[itemName];
               const isExpanded = expandedItems.has(itemName);
+              const bestValue = findBestValue(matches);
 
               return (
                 <div key={itemName} className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden transition-all duration-200">
@@ -211,8 +236,16 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ result, isLoading, save
                           match={match} 
                           onAdd={() => onAddToShoppingList(match)}
                           isSaved={isSaved(match)}
+                          isBestValue={match === bestValue}
+                          priceHistory={priceHistory}
+                          onViewSource={findAdPage(result.pages, match) ? () => setViewingDeal(match) : undefined}
                         />
                       ))}
+                      <AlternativesList
+                        alternatives={result.alternatives?.[itemName]}
+                        onAdd={onAddToShoppingList}
+                        isSaved={isSaved}
+                      />
                     </div>
                   )}
                 </div>
@@ -221,13 +254,135 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ result, isLoading, save
           </div>
         )}
       </div>
+
+      {/* List items with no deal this week */}
+      {result.unmatched && result.unmatched.length > 0 && (
+        <div>
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2 mb-1">
+            Not on Sale <span className="bg-slate-200 text-slate-700 text-xs px-2 py-0.5 rounded-full">{result.unmatched.length}</span>
+          </h3>
+          <p className="text-xs text-slate-500 mb-3">No deal this week for these list items: plan to buy them at regular price.</p>
+          <div className="bg-white rounded-xl border border-slate-200 shadow-sm divide-y divide-slate-100">
+            {result.unmatched.map(item => (
+              <div key={item.keyword} className="px-4 py-3">
+                <div className="flex items-center gap-3">
+                  <ShoppingBag className="w-4 h-4 text-slate-400 shrink-0" />
+                  <span className="font-medium text-slate-800">{item.keyword}</span>
+                  <span className="ml-auto text-xs text-slate-500 text-right">{item.reason}</span>
+                </div>
+                <AlternativesList
+                  alternatives={result.alternatives?.[item.keyword]}
+                  onAdd={onAddToShoppingList}
+                  isSaved={isSaved}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {viewingDeal && viewingPage && (
+        <AdPageViewer
+          deal={viewingDeal}
+          page={viewingPage}
+          onClose={() => setViewingDeal(null)}
+        />
+      )}
     </div>
   );
 };
 
-const MatchCard: React.FC<{ match: GroceryMatch; onAdd: () => void; isSaved: boolean }> = ({ match, onAdd, isSaved }) => {
+interface RunWarningsProps {
+  warnings: PipelineWarning[];
+  failedCount: number;
+  onRetry?: () => void;
+}
+
+// Errors the run recovered from: the results above may be missing the skipped batches
+const RunWarnings: React.FC<RunWarningsProps> = ({ warnings, failedCount, onRetry }) => (
+  <div className="bg-amber-50 border border-amber-200 rounded-xl p-4">
+    <div className="flex items-start gap-3">
+      <AlertTriangle className="w-5 h-5 text-amber-500 shrink-0 mt-0.5" />
+      <div className="flex-grow min-w-0">
+        <h3 className="text-sm font-bold text-amber-800">
+          {failedCount > 0
+            ? `Partial results: ${failedCount} batch${failedCount === 1 ? '' : 'es'} could not be processed`
+            : 'Completed with warnings'}
+        </h3>
+        <ul className="mt-2 space-y-1 text-xs text-amber-700 list-disc pl-4">
+          {warnings.map((warning, index) => (
+            <li key={index} className="break-words">{warning.message}</li>
+          ))}
+        </ul>
+      </div>
+      {failedCount > 0 && (
+        <button
+          onClick={onRetry}
+          disabled={!onRetry}
+          className="shrink-0 flex items-center gap-1.5 px-3 py-1.5 text-xs font-semibold text-amber-800 bg-white border border-amber-300 rounded-lg hover:bg-amber-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <RotateCcw className="w-3.5 h-3.5" />
+          Retry failed
+        </button>
+      )}
+    </div>
+  </div>
+);
+
+interface AlternativesListProps {
+  alternatives?: GroceryMatch[];
+  onAdd: (match: GroceryMatch) => void;
+  isSaved: (match: GroceryMatch) => boolean;
+}
+
+// Similar inventory items the matcher did not pick for a list item
+const AlternativesList: React.FC<AlternativesListProps> = ({ alternatives, onAdd, isSaved }) => {
+  if (!alternatives || alternatives.length === 0) return null;
+
   return (
-    <div className="bg-white rounded-lg border border-slate-200 shadow-sm p-4 flex flex-col gap-4 border-l-4 border-l-emerald-500 group relative">
+    <div className="mt-2 pl-7">
+      <span className="block text-[10px] text-slate-400 uppercase tracking-wider font-medium mb-1">Close alternatives</span>
+      <ul className="space-y-1">
+        {alternatives.map(alt => (
+          <li key={alt.id} className="flex items-center gap-2 text-xs text-slate-600">
+            <span className="truncate">
+              {alt.brand ? `${alt.brand} ` : ''}{alt.productName}
+              {alt.quantity && <span className="text-slate-400"> · {alt.quantity}</span>}
+            </span>
+            <span className="text-slate-400 shrink-0">{alt.storeName}</span>
+            <span className="ml-auto font-semibold text-emerald-600 shrink-0">{alt.price}</span>
+            <button
+              onClick={() => onAdd(alt)}
+              disabled={isSaved(alt)}
+              className="p-1 rounded text-slate-400 hover:text-emerald-600 hover:bg-emerald-50 disabled:text-slate-300 disabled:hover:bg-transparent shrink-0"
+              aria-label={`Add ${alt.productName} to shopping list`}
+            >
+              {isSaved(alt) ? <Check className="w-3.5 h-3.5" /> : <Plus className="w-3.5 h-3.5" />}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+interface MatchCardProps {
+  match: GroceryMatch;
+  onAdd: () => void;
+  isSaved: boolean;
+  isBestValue: boolean;
+  priceHistory: PriceHistoryIndex | null;
+  onViewSource?: () => void; // Set when the ad page image is available
+}
+
+const MatchCard: React.FC<MatchCardProps> = ({ match, onAdd, isSaved, isBestValue, priceHistory, onViewSource }) => {
+  const priceTag = describePrice(getParsedPrice(match));
+  const savings = computeSavings(match);
+  const unitPrice = getUnitPrice(match);
+  const dealScore = useMemo(() => scoreDeal(match, priceHistory), [match, priceHistory]);
+
+  return (
+    <div className={`bg-white rounded-lg border border-slate-200 shadow-sm p-4 flex flex-col gap-4 border-l-4 group relative ${isBestValue ? 'border-l-amber-400' : 'border-l-emerald-500'}`}>
       <div className="flex flex-col sm:flex-row justify-between gap-4">
         <div className="flex-1">
           <div className="mb-2">
@@ -249,6 +404,11 @@ const MatchCard: React.FC<{ match: GroceryMatch; onAdd: () => void; isSaved: boo
                   Sale
                 </span>
               )}
+              {isBestValue && (
+                <span className="bg-amber-100 text-amber-700 text-[10px] font-bold px-1.5 py-0.5 rounded uppercase tracking-wide">
+                  Best Value
+                </span>
+              )}
             </div>
           </div>
           
@@ -263,12 +423,31 @@ const MatchCard: React.FC<{ match: GroceryMatch; onAdd: () => void; isSaved: boo
                  </span>
                </>
             )}
+            {onViewSource && (
+               <>
+                 <span className="text-slate-300">|</span>
+                 <button
+                   onClick={onViewSource}
+                   className="flex items-center gap-1 text-xs font-medium text-emerald-600 hover:text-emerald-700 hover:underline"
+                 >
+                   <ScanSearch className="w-3 h-3" /> View in ad
+                 </button>
+               </>
+            )}
           </div>
 
           <p className="text-slate-600 text-sm leading-relaxed bg-slate-50 p-2 rounded border border-slate-100">
             {match.dealDescription}
           </p>
 
+          {match.rationale && (
+            <p className="mt-1.5 text-xs text-slate-500 italic">{match.rationale}</p>
+          )}
+
+          <div className="mt-2">
+            <DealScoreBadge dealScore={dealScore} />
+          </div>
+
           {match.itemLimit && (
              <div className="mt-2 flex items-center gap-1.5 text-xs text-amber-600 font-medium">
                 <AlertIcon className="w-3.5 h-3.5" />
@@ -285,6 +464,15 @@ const MatchCard: React.FC<{ match: GroceryMatch; onAdd: () => void; isSaved: boo
                     <span className="text-xs text-slate-400 line-through decoration-slate-400">{match.originalPrice}</span>
                 )}
                 <span className="block text-lg font-bold text-emerald-600">{match.price}</span>
+                {unitPrice && (
+                    <span className="text-[10px] font-medium text-slate-500">{formatUnitPrice(unitPrice)}</span>
+                )}
+                {priceTag && (
+                    <span className="text-[10px] font-semibold text-slate-500">{priceTag}</span>
+                )}
+                {savings !== null && (
+                    <span className="text-[10px] font-bold text-emerald-700 bg-emerald-50 px-1.5 py-0.5 rounded mt-0.5">Save ${savings.toFixed(2)}</span>
+                )}
             </div>
           </div>
           
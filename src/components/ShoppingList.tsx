@@ -1,6 +1,7 @@
 import React from 'react';
 import { Trash2, ShoppingCart, Store, Copy, Check, TrendingDown, Scale } from 'lucide-react';
 import { GroceryMatch } from '../types';
+import { computeSavings } from '../utils/pricing';
 
 interface ShoppingListProps {
   savedDeals: GroceryMatch[];
@@ -10,36 +11,13 @@ interface ShoppingListProps {
 const ShoppingList: React.FC<ShoppingListProps> = ({ savedDeals, onRemove }) => {
   const [copied, setCopied] = React.useState(false);
 
-  // Helper to parse price strings
-  const parsePrice = (str: string): number | null => {
-    if (!str) return null;
-    const clean = str.toLowerCase().replace(/,/g, '');
-    
-    // Handle "2 for $5" or "2/$5"
-    const multi = clean.match(/(\d+)\s*(?:for|\/)\s*\$?([\d.]+)/);
-    if (multi) {
-      const qty = parseFloat(multi[1]);
-      const cost = parseFloat(multi[2]);
-      return qty > 0 ? cost / qty : 0;
-    }
-    
-    // Handle "$2.99"
-    const single = clean.match(/\$?([\d.]+)/);
-    if (single) return parseFloat(single[1]);
-    return null;
-  };
-
   // Calculate total savings
   const totalSavings = React.useMemo(() => {
     let total = 0;
     savedDeals.forEach(deal => {
-      if (!deal.originalPrice) return;
-
-      const salePrice = parsePrice(deal.price);
-      const originalPrice = parsePrice(deal.originalPrice);
-
-      if (salePrice !== null && originalPrice !== null && originalPrice > salePrice) {
-        total += (originalPrice - salePrice);
+      const savings = computeSavings(deal);
+      if (savings !== null) {
+        total += savings;
       }
     });
     return total;
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { PARENT_CATEGORIES } from '@/services/taxonomy';
 
 // ===== ZOD SCHEMAS FOR AGENT RESPONSES =====
 
@@ -11,6 +12,8 @@ export const RawExtractedItemSchema = z.object({
     dealText: z.string().default(""),
     storeName: z.string().default("Unknown Store"),
     validity: z.string().default(""),
+    page: z.number().optional(), // 1-based position among the attached pages
+    box: z.array(z.number()).optional(), // [ymin, xmin, ymax, xmax] on a 0-1000 grid
 });
 
 export const Agent1ResponseSchema = z.array(RawExtractedItemSchema);
@@ -27,6 +30,8 @@ export const MasterInventoryItemPartialSchema = z.object({
     isLossLeader: z.boolean().default(false),
     validDates: z.string().default(""),
     originalPrice: z.string().nullable().optional(),
+    sourceFile: z.string().optional(),
+    sourcePage: z.number().optional(),
 });
 
 export const Agent2ResponseSchema = z.array(MasterInventoryItemPartialSchema);
@@ -36,15 +41,86 @@ export const Agent3ResponseSchema = z.object({
     expandedKeywords: z.array(z.string()),
 });
 
+// Agent 3 sometimes ignores the instructions and returns a bare keyword array
+export const Agent3LenientResponseSchema = z.union([
+    Agent3ResponseSchema,
+    z.array(z.string()).transform(expandedKeywords => ({ expandedKeywords })),
+]);
+
 // Agent 4: Matcher Response Schema
 export const MatchItemSchema = z.object({
     id: z.string(),
     itemName: z.string(),
     dealDescription: z.string().optional(),
     confidence: z.number().optional(),
+    rationale: z.string().optional(), // Why this deal fits the keyword
+});
+
+// A keyword with no deal in the inventory
+export const UnmatchedKeywordSchema = z.object({
+    keyword: z.string(),
+    reason: z.string().default("Not on sale this week"),
 });
 
 export const Agent4ResponseSchema = z.object({
     matches: z.array(MatchItemSchema),
+    unmatched: z.array(UnmatchedKeywordSchema).default([]),
     summary: z.string().default("Here are the best deals found for your list."),
 });
+
+// ===== ZOD SCHEMAS FOR INVENTORY FILES =====
+
+const BoundingBoxSchema = z.object({
+    x: z.number(),
+    y: z.number(),
+    width: z.number(),
+    height: z.number(),
+});
+
+// Category names are matched case-insensitively, so spreadsheet edits like "produce" are accepted
+const CategorySchema = z.preprocess(
+    value => (typeof value === 'string'
+        ? PARENT_CATEGORIES.find(category => category.toLowerCase() === value.trim().toLowerCase()) ?? value
+        : value),
+    z.enum(PARENT_CATEGORIES, { error: `Expected one of: ${PARENT_CATEGORIES.join(', ')}` })
+);
+
+// One imported inventory item; parsed prices, measures and unit prices are recomputed, not imported
+export const InventoryItemImportSchema = z.object({
+    id: z.string().optional(), // A new id is assigned when missing
+    storeName: z.string().trim().min(1),
+    rawName: z.string().optional(),
+    normalizedName: z.string().trim().min(1),
+    brand: z.string().default(""),
+    price: z.string().trim().min(1),
+    unit: z.string().default(""),
+    dealDescription: z.string().default(""),
+    category: CategorySchema,
+    subcategory: z.string().optional(),
+    isLossLeader: z.boolean().default(false),
+    validDates: z.string().optional(),
+    originalPrice: z.string().nullish().transform(value => value ?? undefined), // Agent 2 writes null when none is printed
+    sourceFile: z.string().optional(),
+    sourcePage: z.number().int().positive().optional(),
+    sourceBox: BoundingBoxSchema.optional(),
+    sources: z.array(z.object({
+        fileName: z.string(),
+        pageNumber: z.number().optional(),
+        box: BoundingBoxSchema.optional(),
+    })).optional(),
+});
+
+// Exported inventory JSON; items are validated one by one so errors can name the item
+export const InventoryFileSchema = z.object({
+    format: z.literal('grocery-deal-hunter/inventory'),
+    version: z.number(),
+    exportedAt: z.string().optional(),
+    inventory: z.array(z.unknown()),
+    categorizedDeals: z.array(z.unknown()).optional(), // Validated with ExportedDealCategorySchema
+});
+
+// Exported category grouping; restored by item id, so only the ids are needed
+export const ExportedDealCategorySchema = z.object({
+    category: z.string(),
+    items: z.array(z.object({ id: z.string() })),
+});
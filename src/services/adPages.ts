@@ -0,0 +1,250 @@
+// Ad page splitting
+// Rasterizes PDF circulars page by page and tiles large scans so each part can be extracted as its own vision shard
+
+import { AdPageImage, BoundingBox } from "@/types";
+import { isAbortError, throwIfAborted } from "@/utils/abort";
+import { logger } from "@/utils/logger";
+import { computeTileRegions, DEFAULT_TILING, estimateSkewAngle, TilingOptions } from "@/utils/tiling";
+
+export const MAX_PAGE_DIMENSION = 2000; // Longest rendered side in pixels
+const PAGE_IMAGE_QUALITY = 0.85;
+
+const MIN_DESKEW_ANGLE = 0.5; // Degrees; smaller skews are left alone
+const SKEW_SAMPLE_DIMENSION = 600; // Skew is measured on a downscaled copy
+
+export interface AdPage extends AdPageImage {
+  pageCount: number;
+}
+
+export interface AdTile extends AdPage {
+  region?: BoundingBox; // Part of the page covered; unset when the tile is the whole page
+  tileIndex: number;
+  tileCount: number;
+}
+
+const fileToBase64 = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(file);
+    reader.onload = () => {
+      const result = reader.result as string;
+      resolve(result.split(',')[1]);
+    };
+    reader.onerror = (error) => reject(error);
+  });
+};
+
+const isPdf = (file: File) => file.type === "application/pdf" || /\.pdf$/i.test(file.name);
+
+/**
+ * Render every page of a PDF to a JPEG, scaled so the longest side is at most MAX_PAGE_DIMENSION
+ */
+const rasterizePdf = async (file: File, signal?: AbortSignal): Promise<AdPage[]> => {
+  // Loaded lazily: pdf.js is large and only needed for PDF uploads
+  const pdfjs = await import("pdfjs-dist");
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL("pdfjs-dist/build/pdf.worker.min.mjs", import.meta.url).toString();
+
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const pages: AdPage[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      throwIfAborted(signal);
+      const page = await pdf.getPage(pageNumber);
+      const { width, height } = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: Math.min(MAX_PAGE_DIMENSION / Math.max(width, height), 3) });
+
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(viewport.width);
+      canvas.height = Math.round(viewport.height);
+      await page.render({ canvas, viewport }).promise;
+
+      pages.push({
+        data: canvas.toDataURL("image/jpeg", PAGE_IMAGE_QUALITY).split(",")[1],
+        mimeType: "image/jpeg",
+        fileName: file.name,
+        pageNumber,
+        pageCount: pdf.numPages,
+      });
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return pages;
+};
+
+/**
+ * Split uploaded ad files into pages.
+ * Images are a single page; PDFs are rasterized per page, or sent whole if they cannot be rendered.
+ */
+export const splitAdFiles = async (files: File[], signal?: AbortSignal): Promise<AdPage[]> => {
+  const perFile = await Promise.all(files.map(async (file): Promise<AdPage[]> => {
+    if (isPdf(file)) {
+      try {
+        const pages = await rasterizePdf(file, signal);
+        logger.log(`${file.name}: split into ${pages.length} page(s)`, '📑');
+        return pages;
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        logger.warn(`Could not split ${file.name} into pages, sending it whole: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    return [{
+      data: await fileToBase64(file),
+      mimeType: file.type,
+      fileName: file.name,
+      pageNumber: 1,
+      pageCount: 1,
+    }];
+  }));
+
+  return perFile.flat();
+};
+
+/**
+ * Page images that can be shown in the browser (PDFs sent whole cannot)
+ */
+export const toPageImages = (pages: AdPage[]): AdPageImage[] =>
+  pages
+    .filter(page => page.mimeType.startsWith("image/"))
+    .map(({ fileName, pageNumber, mimeType, data }) => ({ fileName, pageNumber, mimeType, data }));
+
+/**
+ * The page image an item was extracted from, if it was kept
+ */
+export const findAdPage = (
+  pages: AdPageImage[] | undefined,
+  item: { sourceFile?: string; sourcePage?: number }
+): AdPageImage | undefined =>
+  pages?.find(page => page.fileName === item.sourceFile && page.pageNumber === item.sourcePage);
+
+/**
+ * Tiling options from env (VITE_TILE_SIZE, VITE_TILE_OVERLAP), with explicit overrides winning
+ */
+export const resolveTilingOptions = (overrides: Partial<TilingOptions> = {}): TilingOptions => {
+  const env = import.meta.env;
+  const fromEnv = (value: string | undefined) => (value && Number.isFinite(Number(value)) ? Number(value) : undefined);
+
+  return {
+    ...DEFAULT_TILING,
+    tileSize: fromEnv(env.VITE_TILE_SIZE) ?? DEFAULT_TILING.tileSize,
+    overlap: fromEnv(env.VITE_TILE_OVERLAP) ?? DEFAULT_TILING.overlap,
+    ...overrides,
+  };
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context is not available");
+  return { canvas, ctx };
+};
+
+const canvasToBase64 = (canvas: HTMLCanvasElement) =>
+  canvas.toDataURL("image/jpeg", PAGE_IMAGE_QUALITY).split(",")[1];
+
+const base64ToBlob = (data: string, mimeType: string) =>
+  new Blob([Uint8Array.from(atob(data), c => c.charCodeAt(0))], { type: mimeType });
+
+/**
+ * Skew of the page content in degrees, measured on a grayscale thumbnail
+ */
+const measureSkew = (source: HTMLCanvasElement): number => {
+  const scale = Math.min(1, SKEW_SAMPLE_DIMENSION / Math.max(source.width, source.height));
+  const { canvas, ctx } = createCanvas(Math.round(source.width * scale), Math.round(source.height * scale));
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const gray = new Uint8Array(canvas.width * canvas.height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return estimateSkewAngle(gray, canvas.width, canvas.height);
+};
+
+/**
+ * Rotate a canvas by `angle` degrees (clockwise), growing it to fit and filling corners white
+ */
+const rotateCanvas = (source: HTMLCanvasElement, angle: number): HTMLCanvasElement => {
+  const rad = (angle * Math.PI) / 180;
+  const sin = Math.abs(Math.sin(rad));
+  const cos = Math.abs(Math.cos(rad));
+  const { canvas, ctx } = createCanvas(
+    Math.round(source.width * cos + source.height * sin),
+    Math.round(source.width * sin + source.height * cos)
+  );
+
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate(rad);
+  ctx.drawImage(source, -source.width / 2, -source.height / 2);
+  return canvas;
+};
+
+const wholePageTile = (page: AdPage): AdTile => ({ ...page, tileIndex: 0, tileCount: 1 });
+
+/**
+ * Prepare a page image for extraction: downscale, deskew and slice into overlapping tiles.
+ * Non-image pages, and images the browser cannot decode, are passed through whole.
+ * @returns The processed page (shown in the ad viewer) and the tiles to extract
+ */
+export const preprocessPage = async (page: AdPage, options: TilingOptions): Promise<{ page: AdPage; tiles: AdTile[] }> => {
+  if (!page.mimeType.startsWith("image/")) {
+    return { page, tiles: [wholePageTile(page)] };
+  }
+
+  try {
+    const bitmap = await createImageBitmap(base64ToBlob(page.data, page.mimeType));
+    const scale = Math.min(1, options.maxDimension / Math.max(bitmap.width, bitmap.height));
+    const scaled = createCanvas(Math.round(bitmap.width * scale), Math.round(bitmap.height * scale));
+    scaled.ctx.drawImage(bitmap, 0, 0, scaled.canvas.width, scaled.canvas.height);
+    bitmap.close();
+
+    let canvas = scaled.canvas;
+    let changed = scale < 1;
+    if (options.deskew) {
+      const angle = measureSkew(canvas);
+      if (Math.abs(angle) >= MIN_DESKEW_ANGLE) {
+        canvas = rotateCanvas(canvas, -angle);
+        changed = true;
+        logger.log(`${page.fileName} page ${page.pageNumber}: corrected ${angle}° skew`, '📐');
+      }
+    }
+
+    const processed: AdPage = changed ? { ...page, data: canvasToBase64(canvas), mimeType: "image/jpeg" } : page;
+    const regions = computeTileRegions(canvas.width, canvas.height, options);
+    if (regions.length === 1) {
+      return { page: processed, tiles: [wholePageTile(processed)] };
+    }
+
+    const tiles = regions.map((region, tileIndex): AdTile => {
+      const tile = createCanvas(region.width, region.height);
+      tile.ctx.drawImage(canvas, region.x, region.y, region.width, region.height, 0, 0, region.width, region.height);
+      return {
+        ...processed,
+        data: canvasToBase64(tile.canvas),
+        mimeType: "image/jpeg",
+        region: {
+          x: region.x / canvas.width,
+          y: region.y / canvas.height,
+          width: region.width / canvas.width,
+          height: region.height / canvas.height,
+        },
+        tileIndex,
+        tileCount: regions.length,
+      };
+    });
+
+    logger.log(`${page.fileName} page ${page.pageNumber}: split into ${tiles.length} overlapping tiles`, '🧩');
+    return { page: processed, tiles };
+  } catch (error) {
+    logger.warn(`Could not preprocess ${page.fileName} page ${page.pageNumber}, sending it whole: ${error instanceof Error ? error.message : error}`);
+    return { page, tiles: [wholePageTile(page)] };
+  }
+};
@@ -0,0 +1,558 @@
+// @vitest-environment jsdom
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  analyzeGroceryAds,
+  ingestFlyers,
+  matchInventoryOffline,
+  matchShoppingList,
+  retryFailedShards
+} from '@/services/geminiService';
+import { createAgentMockProvider } from '@/services/llm/mockProvider';
+import { FixtureRecorder } from '@/services/llm/fixtures';
+import { createMemoryResponseCache } from '@/services/llm/responseCache';
+import { createRequestScheduler, scheduleProvider } from '@/services/llm/scheduler';
+import { applyPipelineEvent, PipelineEvent } from '@/services/pipelineEvents';
+import { initialPipelineState, reducePipelineState } from '@/services/pipelineState';
+import { terminateClassifier } from '@/services/vectorClassifier';
+import { FakeClassifierWorker } from '@/test/fakeClassifierWorker';
+import { logger } from '@/utils/logger';
+import {
+  AGENT1_FENCED,
+  AGENT2_OUTPUT,
+  AGENT3_BARE_ARRAY,
+  AGENT3_MISSING_KEY,
+  AGENT3_OBJECT,
+  agent4Output,
+} from '@/test/modelOutputs';
+
+const adFile = () => new File(['%PDF-1.4 fake ad'], 'weekly-ad.pdf', { type: 'application/pdf' });
+
+const smudgedFile = () => new File(['%PDF-1.4 unreadable'], 'smudged-ad.pdf', { type: 'application/pdf' });
+
+const agentOf = (prompt: string) => prompt.match(/Role: (Agent \d)/)?.[1];
+
+const mockAllAgents = (overrides: Parameters<typeof createAgentMockProvider>[0] = {}) => {
+  const provider = createAgentMockProvider({
+    extractor: AGENT1_FENCED,
+    librarian: AGENT2_OUTPUT,
+    interpreter: AGENT3_OBJECT,
+    matcher: (request) => agent4Output(request.prompt, ['Chicken Breast', 'Potato Chips']),
+    ...overrides,
+  });
+  return {
+    provider,
+    providers: { extractor: provider, librarian: provider, interpreter: provider, matcher: provider },
+  };
+};
+
+beforeAll(() => {
+  vi.stubGlobal('Worker', FakeClassifierWorker);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+beforeEach(() => {
+  terminateClassifier();
+});
+
+afterAll(() => {
+  terminateClassifier();
+  vi.unstubAllGlobals();
+});
+
+describe('analyzeGroceryAds', () => {
+  it('runs all four agents and hydrates matches from the inventory', async () => {
+    const { provider, providers } = mockAllAgents();
+    const events: PipelineEvent[] = [];
+
+    const result = await analyzeGroceryAds('chicken, chips', [adFile()], (e) => events.push(e), { providers });
+
+    expect(provider.calls).toHaveLength(4);
+    expect(provider.calls[0].files).toHaveLength(1);
+    expect(result.inventory).toHaveLength(2);
+    expect(result.inventory[0]).toMatchObject({ sourceFile: 'weekly-ad.pdf', sourcePage: 1 });
+    expect(result.matches.map(m => m.productName).sort()).toEqual(['Chicken Breast', 'Potato Chips']);
+    expect(result.summary).toBe('Found 2 deals.');
+    expect(events.some(e => e.type === 'status' && e.agent === 'matcher' && e.message.startsWith('Agent 4'))).toBe(true);
+  });
+
+  it('streams partial results as each agent finishes', async () => {
+    const { providers } = mockAllAgents();
+    const events: PipelineEvent[] = [];
+
+    const result = await analyzeGroceryAds('chicken, chips', [adFile()], (e) => events.push(e), { providers });
+
+    const dataEvents = events.filter(e => e.type !== 'status' && e.type !== 'stage_started');
+    expect(dataEvents.map(e => e.type)).toEqual([
+      'items_extracted', 'shard_normalized', 'categories_ready', 'keywords_ready', 'matches_found', 'complete',
+    ]);
+    expect(dataEvents[0]).toMatchObject({ fileName: 'weekly-ad.pdf', pageNumbers: [1], completedBatches: 1, totalBatches: 1 });
+    expect(dataEvents[0].type === 'items_extracted' && dataEvents[0].items).toHaveLength(2);
+
+    // Folding the events rebuilds the final result
+    const folded = events.reduce(applyPipelineEvent, null);
+    expect(folded).toBe(result);
+    const beforeComplete = events.slice(0, -1).reduce(applyPipelineEvent, null);
+    expect(beforeComplete?.matches).toEqual(result.matches);
+    expect(beforeComplete?.categorizedDeals).toEqual(result.categorizedDeals);
+  });
+
+  it('drives the pipeline state through every stage', async () => {
+    const { providers } = mockAllAgents();
+    let state = initialPipelineState;
+
+    await analyzeGroceryAds('chicken, chips', [adFile()], (e) => { state = reducePipelineState(state, e); }, { providers });
+
+    expect(state.stage).toBe('done');
+    expect(Object.values(state.stages).map(s => s.status)).toEqual(['done', 'done', 'done', 'done']);
+    expect(state.stages.extracting).toMatchObject({ completed: 1, total: 1, itemCount: 2 });
+    expect(state.stages.normalizing).toMatchObject({ completed: 1, total: 1, itemCount: 2 });
+    expect(state.stages.matching.itemCount).toBe(2);
+  });
+
+  it('reports the stage a run failed in', async () => {
+    const { providers } = mockAllAgents({
+      librarian: () => {
+        throw new Error('Failed to parse Agent 2 response');
+      },
+    });
+    let state = initialPipelineState;
+
+    await expect(analyzeGroceryAds('milk', [adFile()], (e) => { state = reducePipelineState(state, e); }, { providers }))
+      .rejects.toThrow();
+
+    expect(state.stage).toBe('failed');
+    expect(state.failedStage).toBe('normalizing');
+    expect(state.stages.extracting.status).toBe('done');
+    expect(state.error).toMatch(/Agent 2/);
+  });
+
+  it('skips a page batch that keeps failing and finishes the run', async () => {
+    const { provider, providers } = mockAllAgents({
+      extractor: (request) => {
+        if (request.prompt.includes('smudged-ad.pdf')) throw new Error('Failed to parse Agent 1 response');
+        return AGENT1_FENCED;
+      },
+    });
+    let state = initialPipelineState;
+
+    const result = await analyzeGroceryAds('chicken, chips', [adFile(), smudgedFile()], (e) => { state = reducePipelineState(state, e); }, { providers });
+
+    expect(result.inventory).toHaveLength(2);
+    expect(result.matches).toHaveLength(2);
+    // Retried once before being skipped
+    expect(provider.calls.filter(call => call.prompt.includes('smudged-ad.pdf'))).toHaveLength(2);
+    expect(logger.getLogsAsString()).toContain('smudged-ad.pdf page 1 failed and was skipped');
+
+    // The skipped page is reported with the result so it can be retried
+    expect(result.warnings).toEqual([{ stage: 'extracting', message: expect.stringContaining('smudged-ad.pdf page 1') }]);
+    expect(result.failedShards).toHaveLength(1);
+    expect(result.failedShards![0]).toMatchObject({
+      stage: 'extracting',
+      error: 'Failed to parse Agent 1 response',
+      pages: [{ fileName: 'smudged-ad.pdf', pageNumber: 1, tileIndex: 0 }],
+    });
+    expect(state.stage).toBe('done');
+    expect(state.stages.extracting.warningCount).toBe(1);
+  });
+
+  it('does not run a batch again after the scheduler used up its retries', async () => {
+    const { provider, providers } = mockAllAgents({
+      extractor: (request) => {
+        if (request.prompt.includes('smudged-ad.pdf')) throw new Error('429 RESOURCE_EXHAUSTED');
+        return AGENT1_FENCED;
+      },
+    });
+    const scheduler = createRequestScheduler({ requestsPerMinute: 0, maxRetries: 1, baseDelayMs: 0 });
+    const extractor = scheduleProvider(provider, scheduler);
+
+    const result = await analyzeGroceryAds('chicken, chips', [adFile(), smudgedFile()], undefined, {
+      providers: { ...providers, extractor },
+    });
+
+    // One request plus the scheduler's single retry; no extra shard-level attempt on top
+    expect(provider.calls.filter(call => call.prompt.includes('smudged-ad.pdf'))).toHaveLength(2);
+    expect(result.warnings?.[0].message).toContain('smudged-ad.pdf page 1 failed and was skipped');
+  });
+
+  it('keeps the items of a failed normalization batch for a retry', async () => {
+    const bulkItems = Array.from({ length: 20 }, (_, i) => ({ rawName: `Bulk Item ${i}`, price: '$1.00', storeName: 'FreshMart' }));
+    const bulkFile = new File(['%PDF-1.4 bulk'], 'bulk-ad.pdf', { type: 'application/pdf' });
+    const { providers } = mockAllAgents({
+      extractor: (request) => (request.prompt.includes('bulk-ad.pdf') ? JSON.stringify(bulkItems) : AGENT1_FENCED),
+      librarian: (request) => {
+        if (request.prompt.includes('Bulk Item')) throw new Error('Failed to parse Agent 2 response');
+        return AGENT2_OUTPUT;
+      },
+    });
+
+    const result = await analyzeGroceryAds('chicken, chips', [bulkFile, adFile()], undefined, { providers });
+
+    expect(result.inventory).toHaveLength(2);
+    expect(result.warnings?.[0].message).toMatch(/^Agent 2: Batch 1 of 2 \(20 items\) failed/);
+    expect(result.failedShards).toHaveLength(1);
+    expect(result.failedShards![0]).toMatchObject({ stage: 'normalizing' });
+    expect(result.failedShards![0].items?.map(item => item.rawName)).toEqual(bulkItems.map(item => item.rawName));
+  });
+
+  it('fails when every batch of a stage fails', async () => {
+    const { providers } = mockAllAgents({
+      librarian: () => {
+        throw new Error('Failed to parse Agent 2 response');
+      },
+    });
+
+    await expect(analyzeGroceryAds('chicken', [adFile()], undefined, { providers }))
+      .rejects.toThrow('Failed to parse Agent 2 response');
+  });
+
+  it('stops at the next step once the run is aborted', async () => {
+    const controller = new AbortController();
+    const { provider, providers } = mockAllAgents({
+      librarian: () => {
+        controller.abort();
+        return AGENT2_OUTPUT;
+      },
+    });
+    let state = initialPipelineState;
+
+    await expect(analyzeGroceryAds('chicken', [adFile()], (e) => { state = reducePipelineState(state, e); }, {
+      providers,
+      signal: controller.signal,
+    })).rejects.toMatchObject({ name: 'AbortError' });
+
+    // Agent 3 and 4 are never called
+    expect(provider.calls.map(call => agentOf(call.prompt))).toEqual(['Agent 1', 'Agent 2']);
+    expect(provider.calls.every(call => call.signal === controller.signal)).toBe(true);
+    expect(state.stage).toBe('cancelled');
+    expect(state.stages.normalizing.status).toBe('cancelled');
+  });
+
+  it('attaches parsed prices and categories during normalization', async () => {
+    const { providers } = mockAllAgents();
+    const result = await analyzeGroceryAds('chicken', [adFile()], undefined, { providers });
+
+    const chips = result.inventory.find(i => i.normalizedName === 'Potato Chips')!;
+    expect(chips.category).toBe('Snacks & Sweets');
+    expect(chips.parsedPrice.kind).toBe('multi');
+    expect(chips.unitPrice?.unit).toBe('oz');
+
+    expect(result.categorizedDeals.map(c => c.category)).toEqual(['Meat & Seafood', 'Snacks & Sweets']);
+  });
+
+  it('extracts each page in its own request and tags items with their source', async () => {
+    const { provider, providers } = mockAllAgents();
+    const pages = [
+      new File(['page one'], 'front.png', { type: 'image/png' }),
+      new File(['page two'], 'back.png', { type: 'image/png' }),
+    ];
+
+    const result = await analyzeGroceryAds('chicken', pages, undefined, { providers });
+
+    const extractorCalls = provider.calls.filter(c => c.prompt.includes('Role: Agent 1'));
+    expect(extractorCalls).toHaveLength(2);
+    expect(extractorCalls.every(c => c.files?.length === 1)).toBe(true);
+    expect(extractorCalls[1].prompt).toContain('"back.png" page 1 of 1');
+
+    const librarianInput = provider.calls.find(c => c.prompt.includes('Role: Agent 2'))!.prompt;
+    expect(librarianInput).toContain('"sourceFile":"back.png"');
+    expect(result.inventory.every(i => i.sourceFile && i.sourcePage === 1)).toBe(true);
+    expect(result.pages?.map(p => p.fileName)).toEqual(['front.png', 'back.png']);
+  });
+
+  it('carries bounding boxes from Agent 1 through to the matches', async () => {
+    const extractor = JSON.stringify([
+      { rawName: "Lay's Potato Chips", price: '2/$5', unit: '8 oz', storeName: 'FreshMart', box: [100, 250, 300, 500] },
+      { rawName: 'Boneless Chicken Breast', price: '$1.99/lb', unit: 'lb', storeName: 'FreshMart' },
+    ]);
+    const { provider, providers } = mockAllAgents({ extractor });
+
+    const result = await analyzeGroceryAds('chicken, chips', [adFile()], undefined, { providers });
+
+    const librarianInput = provider.calls.find(c => c.prompt.includes('Role: Agent 2'))!.prompt;
+    expect(librarianInput).not.toContain('sourceBox');
+    const chips = result.matches.find(m => m.productName === 'Potato Chips')!;
+    expect(chips.sourceBox).toEqual({ x: 0.25, y: 0.1, width: 0.25, height: 0.2 });
+    expect(result.matches.find(m => m.productName === 'Chicken Breast')!.sourceBox).toBeUndefined();
+  });
+
+  it('merges the same product listed in two uploaded copies of a flyer', async () => {
+    const listings = JSON.parse(AGENT2_OUTPUT);
+    const librarian = JSON.stringify([
+      ...listings.map((l: object) => ({ ...l, sourceFile: 'front.png', sourcePage: 1 })),
+      ...listings.map((l: object) => ({ ...l, sourceFile: 'copy.png', sourcePage: 1 })),
+    ]);
+    const { providers } = mockAllAgents({ librarian });
+    const files = [
+      new File(['page one'], 'front.png', { type: 'image/png' }),
+      new File(['page one'], 'copy.png', { type: 'image/png' }),
+    ];
+
+    const result = await analyzeGroceryAds('chips', files, undefined, { providers });
+
+    expect(result.inventory).toHaveLength(2);
+    const chips = result.inventory.find(i => i.normalizedName === 'Potato Chips')!;
+    expect(chips.sources?.map(s => s.fileName)).toEqual(['front.png', 'copy.png']);
+  });
+
+  it('sends only retrieved candidates to the matcher', async () => {
+    const { provider, providers } = mockAllAgents({ interpreter: '{"expandedKeywords": ["Chicken Breast"]}' });
+
+    const result = await analyzeGroceryAds('chicken', [adFile()], undefined, {
+      providers,
+      retrieval: { minInventorySize: 0, minPerKeyword: 1 },
+    });
+
+    const matcherPrompt = provider.calls.find(c => c.prompt.includes('Role: Agent 4'))!.prompt;
+    expect(matcherPrompt).toContain('Chicken Breast');
+    expect(matcherPrompt).not.toContain('Potato Chips');
+    expect(matcherPrompt).not.toContain('parsedPrice');
+    expect(result.matches.map(m => m.productName)).toEqual(['Chicken Breast']);
+  });
+
+  it('accepts a bare array from Agent 3', async () => {
+    const { providers } = mockAllAgents({ interpreter: AGENT3_BARE_ARRAY });
+    const result = await analyzeGroceryAds('chicken', [adFile()], undefined, { providers });
+    expect(result.matches).toHaveLength(2);
+  });
+
+  it('expands the list offline when Agent 3 returns an object without expandedKeywords', async () => {
+    const { providers } = mockAllAgents({ interpreter: AGENT3_MISSING_KEY });
+    const result = await analyzeGroceryAds('chicken breast, potato chips', [adFile()], undefined, { providers });
+
+    expect(result.matches.map(m => m.productName).sort()).toEqual(['Chicken Breast', 'Potato Chips']);
+    expect(result.warnings).toEqual([{ stage: 'interpreting', message: expect.stringMatching(/^Agent 3 failed/) }]);
+    expect(result.failedShards).toEqual([]);
+  });
+
+  it('matches on this device when Agent 4 fails', async () => {
+    const { providers } = mockAllAgents({
+      matcher: () => {
+        throw new Error('Agent 4 returned malformed JSON');
+      },
+    });
+    const result = await analyzeGroceryAds('chicken breast, potato chips', [adFile()], undefined, { providers });
+
+    expect(result.matches.map(m => m.productName).sort()).toEqual(['Chicken Breast', 'Potato Chips']);
+    expect(result.warnings).toEqual([{ stage: 'matching', message: expect.stringMatching(/^Agent 4 failed/) }]);
+  });
+
+  it('drops matches whose id is not in the inventory', async () => {
+    const { providers } = mockAllAgents({
+      matcher: '{"matches": [{"id": "not-a-real-id", "itemName": "Milk"}], "summary": "One deal."}',
+    });
+    const result = await analyzeGroceryAds('milk', [adFile()], undefined, { providers });
+    expect(result.matches).toEqual([]);
+    expect(result.unmatched?.map(u => u.keyword)).toEqual(['Chicken Breast', 'Potato Chips']);
+  });
+
+  it('recovers a match whose id the model invented', async () => {
+    const { providers } = mockAllAgents({
+      matcher: '{"matches": [{"id": "chicken-1", "itemName": "Chicken Breast"}], "summary": "One deal."}',
+    });
+    const result = await analyzeGroceryAds('chicken', [adFile()], undefined, { providers });
+
+    const chicken = result.inventory.find(i => i.normalizedName === 'Chicken Breast')!;
+    expect(result.matches.map(m => m.id)).toEqual([chicken.id]);
+    expect(result.unmatched?.map(u => u.keyword)).toEqual(['Potato Chips']);
+  });
+
+  it('reports every keyword without a deal', async () => {
+    const { providers } = mockAllAgents({
+      interpreter: '{"expandedKeywords": ["Chicken Breast", "Potato Chips", "Saffron"]}',
+      matcher: (request) => {
+        const { matches } = JSON.parse(agent4Output(request.prompt, ['Chicken Breast']));
+        return JSON.stringify({
+          matches: matches.map((m: object) => ({ ...m, rationale: 'Boneless breast on sale' })),
+          unmatched: [{ keyword: 'saffron', reason: 'Not carried by these stores' }],
+          summary: 'One deal.',
+        });
+      },
+    });
+
+    const result = await analyzeGroceryAds('chicken, chips, saffron', [adFile()], undefined, { providers });
+
+    expect(result.matches[0].rationale).toBe('Boneless breast on sale');
+    expect(result.unmatched).toEqual([
+      { keyword: 'Potato Chips', reason: 'Not on sale this week' },
+      { keyword: 'Saffron', reason: 'Not carried by these stores' },
+    ]);
+  });
+
+  it('fails when no products are extracted', async () => {
+    const { providers } = mockAllAgents({ extractor: '[]' });
+    await expect(analyzeGroceryAds('milk', [adFile()], undefined, { providers }))
+      .rejects.toThrow(/Could not identify any products/);
+  });
+
+  it('re-runs only the list agents when the same ads are analyzed again', async () => {
+    const { provider, providers } = mockAllAgents();
+    const cache = createMemoryResponseCache(60000);
+
+    await analyzeGroceryAds('chicken, chips', [adFile()], undefined, { providers, cache });
+    provider.calls.length = 0;
+    const result = await analyzeGroceryAds('chicken, chips', [adFile()], undefined, { providers, cache });
+
+    expect(provider.calls.map(call => agentOf(call.prompt))).toEqual(['Agent 4']);
+    expect(result.matches.map(m => m.productName).sort()).toEqual(['Chicken Breast', 'Potato Chips']);
+
+    provider.calls.length = 0;
+    await analyzeGroceryAds('chicken, chips, salsa', [adFile()], undefined, { providers, cache });
+    expect(provider.calls.map(call => agentOf(call.prompt))).toEqual(['Agent 3', 'Agent 4']);
+  });
+
+  it('scans the ads again when their bytes change', async () => {
+    const { provider, providers } = mockAllAgents();
+    const cache = createMemoryResponseCache(60000);
+
+    await analyzeGroceryAds('chicken', [adFile()], undefined, { providers, cache });
+    provider.calls.length = 0;
+    const edited = new File(['%PDF-1.4 next week'], 'weekly-ad.pdf', { type: 'application/pdf' });
+    await analyzeGroceryAds('chicken', [edited], undefined, { providers, cache });
+
+    // The mock extractor reads the same items, so Agent 2's batch is still cached
+    expect(provider.calls.map(call => agentOf(call.prompt))).toEqual(['Agent 1', 'Agent 4']);
+  });
+
+  it('records every call so the run can be replayed', async () => {
+    const { providers } = mockAllAgents();
+    const recorder = new FixtureRecorder();
+    await analyzeGroceryAds('chicken, chips', [adFile()], undefined, { providers, recorder });
+
+    const fixture = recorder.toFixture();
+    expect(fixture.entries.map(e => e.agent)).toEqual(['extractor', 'librarian', 'interpreter', 'matcher']);
+
+    const replayed = await analyzeGroceryAds('chicken, chips', [adFile()], undefined, { replay: fixture });
+    expect(replayed.matches.map(m => m.productName).sort()).toEqual(['Chicken Breast', 'Potato Chips']);
+  });
+});
+
+describe('ingestFlyers', () => {
+  it('builds the inventory with Agents 1 and 2 only', async () => {
+    const { provider, providers } = mockAllAgents();
+    let state = initialPipelineState;
+
+    const result = await ingestFlyers([adFile()], (e) => { state = reducePipelineState(state, e); }, { providers });
+
+    expect(provider.calls.map(call => agentOf(call.prompt))).toEqual(['Agent 1', 'Agent 2']);
+    expect(result.inventory).toHaveLength(2);
+    expect(result.categorizedDeals.length).toBeGreaterThan(0);
+    expect(result.matches).toEqual([]);
+    expect(result.summary).toContain('inventory of 2 deals from 1 store(s)');
+    expect(Object.values(state.stages).map(s => s.status)).toEqual(['done', 'done', 'skipped', 'skipped']);
+  });
+});
+
+describe('matchShoppingList', () => {
+  it('matches several lists against one built inventory with Agents 3 and 4 only', async () => {
+    const { provider, providers } = mockAllAgents();
+    const { inventory } = await ingestFlyers([adFile()], undefined, { providers });
+    provider.calls.length = 0;
+    let state = initialPipelineState;
+
+    const mine = await matchShoppingList('chicken, chips', inventory, (e) => { state = reducePipelineState(state, e); }, { providers });
+    const theirs = await matchShoppingList('potato chips, chicken', inventory, undefined, { providers });
+
+    expect(provider.calls.map(call => agentOf(call.prompt))).toEqual(['Agent 3', 'Agent 4', 'Agent 3', 'Agent 4']);
+    expect(provider.calls[0].prompt).toContain('"chicken, chips"');
+    expect(provider.calls[2].prompt).toContain('"potato chips, chicken"');
+    expect(mine.matches.map(m => m.productName).sort()).toEqual(['Chicken Breast', 'Potato Chips']);
+    expect(theirs.matches.map(m => m.productName).sort()).toEqual(['Chicken Breast', 'Potato Chips']);
+    expect(theirs.inventory).toBe(inventory);
+    expect(Object.values(state.stages).map(s => s.status)).toEqual(['skipped', 'skipped', 'done', 'done']);
+  });
+
+  it('fails when there is no inventory', async () => {
+    const { providers } = mockAllAgents();
+    await expect(matchShoppingList('milk', [], undefined, { providers })).rejects.toThrow(/no inventory to match against/);
+  });
+});
+
+describe('retryFailedShards', () => {
+  const failingSmudged = () => mockAllAgents({
+    extractor: (request) => {
+      if (request.prompt.includes('smudged-ad.pdf')) throw new Error('Failed to parse Agent 1 response');
+      return AGENT1_FENCED;
+    },
+  });
+
+  it('re-scans only the pages that were skipped', async () => {
+    const previous = await analyzeGroceryAds('chicken, chips', [adFile(), smudgedFile()], undefined, { providers: failingSmudged().providers });
+    const { provider, providers } = mockAllAgents();
+    const events: PipelineEvent[] = [];
+
+    const result = await retryFailedShards(previous, 'chicken, chips', [adFile(), smudgedFile()], (e) => events.push(e), { providers });
+
+    const extractorCalls = provider.calls.filter(call => agentOf(call.prompt) === 'Agent 1');
+    expect(extractorCalls).toHaveLength(1);
+    expect(extractorCalls[0].prompt).toContain('smudged-ad.pdf');
+    // The recovered listings are the same products, so they merge into the existing inventory
+    expect(result.inventory).toHaveLength(2);
+    expect(result.matches).toHaveLength(2);
+    expect(result.warnings).toEqual([]);
+    expect(result.failedShards).toEqual([]);
+    expect(events.at(-1)).toEqual({ type: 'complete', result });
+  });
+
+  it('only rebuilds the inventory of a run without a list', async () => {
+    const previous = await ingestFlyers([adFile(), smudgedFile()], undefined, { providers: failingSmudged().providers });
+    const { provider, providers } = mockAllAgents();
+
+    const result = await retryFailedShards(previous, '', [adFile(), smudgedFile()], undefined, { providers });
+
+    expect(provider.calls.map(call => agentOf(call.prompt))).toEqual(['Agent 1', 'Agent 2']);
+    expect(result.matches).toEqual([]);
+    expect(result.failedShards).toEqual([]);
+  });
+
+  it('keeps a batch failed when its file is no longer uploaded', async () => {
+    const previous = await analyzeGroceryAds('chicken, chips', [adFile(), smudgedFile()], undefined, { providers: failingSmudged().providers });
+    const { provider, providers } = mockAllAgents();
+
+    const result = await retryFailedShards(previous, 'chicken, chips', [adFile()], undefined, { providers });
+
+    expect(provider.calls.some(call => agentOf(call.prompt) === 'Agent 1')).toBe(false);
+    expect(result.warnings?.[0].message).toMatch(/no longer uploaded/);
+    expect(result.failedShards).toEqual(previous.failedShards);
+  });
+});
+
+describe('matchInventoryOffline', () => {
+  it('matches a saved inventory without calling any model', async () => {
+    const { provider, providers } = mockAllAgents();
+    const { inventory } = await analyzeGroceryAds('chicken', [adFile()], undefined, { providers });
+    const callsBefore = provider.calls.length;
+
+    const result = await matchInventoryOffline('2 lbs chicken breast\npotato chips\nbananas', inventory);
+
+    expect(provider.calls).toHaveLength(callsBefore);
+    expect(result.matches.map(m => m.productName).sort()).toEqual(['Chicken Breast', 'Potato Chips']);
+    expect(result.matches[0]).toMatchObject({ storeName: inventory[0].storeName, confidence: expect.any(Number) });
+    expect(result.summary).toContain('2 of 3 list items');
+    expect(result.unmatched).toEqual([{ keyword: 'Bananas', reason: 'Not on sale this week' }]);
+    expect(result.categorizedDeals.length).toBeGreaterThan(0);
+  });
+
+  it('fails when there is no inventory', async () => {
+    let state = initialPipelineState;
+    await expect(matchInventoryOffline('milk', [], (e) => { state = reducePipelineState(state, e); }))
+      .rejects.toThrow(/no saved inventory/);
+    expect(state.stage).toBe('failed');
+  });
+
+  it('reports a cancelled offline match', async () => {
+    const { providers } = mockAllAgents();
+    const { inventory } = await analyzeGroceryAds('chicken', [adFile()], undefined, { providers });
+    const controller = new AbortController();
+    const events: PipelineEvent[] = [];
+
+    const run = matchInventoryOffline('chicken breast', inventory, (e) => {
+      events.push(e);
+      if (e.type === 'stage_started' && e.stage === 'matching') controller.abort();
+    }, controller.signal);
+
+    await expect(run).rejects.toMatchObject({ name: 'AbortError' });
+    expect(events.at(-1)).toEqual({ type: 'cancelled' });
+  });
+});
@@ -1,103 +1,119 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
 import { v4 as uuidv4 } from 'uuid';
-import { AnalysisResult, GroceryMatch, DealCategory, MasterInventoryItem, RawExtractedItem } from "@/types";
+import {
+  AnalysisResult,
+  GroceryMatch,
+  DealCategory,
+  FailedShard,
+  MasterInventoryItem,
+  PipelineStageName,
+  PipelineWarning,
+  RawExtractedItem,
+  UnmatchedListItem
+} from "@/types";
+import { AdPage, AdTile, preprocessPage, resolveTilingOptions, splitAdFiles, toPageImages } from "@/services/adPages";
+import { dedupeInventory } from "@/services/inventoryDedupe";
+import { retrieveCandidates, RetrievalOptions } from "@/services/retrieval";
+import { expandListOffline, matchOffline } from "@/services/offlineMatcher";
+import { findCloseAlternatives, findUnmatchedKeywords, hydrateMatches } from "@/services/matchHydration";
+import { PipelineEventListener } from "@/services/pipelineEvents";
 import { initializeVectorClassifier, classifyItem, classifyBatch } from "@/services/vectorClassifier";
 import { PARENT_CATEGORIES, TAXONOMY_TREE } from "@/services/taxonomy";
 import { createShards, createProgressTracker } from "@/utils/chunking";
+import { abortable, isAbortError, throwIfAborted } from "@/utils/abort";
 import { logger } from "@/utils/logger";
+import { parsePrice } from "@/utils/pricing";
+import { computeUnitPrice, parseMeasure } from "@/utils/units";
+import { parseBoundingBox } from "@/utils/boundingBox";
+import { dedupeTiledItems, TilingOptions, toPageBox } from "@/utils/tiling";
+import { resolveAgentProviders } from "@/services/llm/providers";
+import { RequestScheduler, wasRetriedByScheduler } from "@/services/llm/scheduler";
+import { withResponseCache } from "@/services/llm/responseCache";
+import { AgentProviders, LLMProvider, ResponseCache } from "@/services/llm/types";
+import { createReplayProviders, FixtureRecorder, LLMFixture } from "@/services/llm/fixtures";
+import { generateStructured } from "@/services/llm/generateStructured";
 import {
   Agent1ResponseSchema,
   Agent2ResponseSchema,
-  Agent3ResponseSchema,
+  Agent3LenientResponseSchema,
   Agent4ResponseSchema
 } from "@/schemas";
 
-const MODEL_NAME = "gemma-3-27b-it";
 const CATEGORIES = [...PARENT_CATEGORIES];
 const SHARD_SIZE = 20; // Items per batch for parallel processing
-const SEMANTIC_THRESHOLD = 0.7; // Minimum similarity score to pass filtering
-
-const fileToBase64 = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => {
-      const result = reader.result as string;
-      const base64 = result.split(',')[1];
-      resolve(base64);
-    };
-    reader.onerror = (error) => reject(error);
-  });
-};
-
-const cleanJson = (text: string) => {
-  if (!text) return "[]";
-
-  // Try to find JSON in markdown code blocks first
-  const codeBlockMatch = text.match(/```(?:json)?\s*\n?([\s\S]*?)\n?```/);
-  if (codeBlockMatch) {
-    return codeBlockMatch[1].trim();
-  }
-
-  // Try to find JSON object or array patterns
-  // Look for { ... } or [ ... ] that spans the content
-  const jsonObjectMatch = text.match(/(\{[\s\S]*\})/);
-  const jsonArrayMatch = text.match(/(\[[\s\S]*\])/);
-
-  if (jsonArrayMatch) {
-    return jsonArrayMatch[1].trim();
-  }
-
-  if (jsonObjectMatch) {
-    return jsonObjectMatch[1].trim();
-  }
-
-  // If no patterns found, return the trimmed text as-is
-  return text.trim();
+const PAGES_PER_SHARD = 1; // Ad pages (or tiles of large pages) per vision request
+const SHARD_ATTEMPTS = 2; // A failed shard is run once more before it is skipped, unless the scheduler already retried it
+
+interface ShardFailure {
+  index: number;
+  error: unknown;
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// Helper: record an error the run recovered from in the pipeline log and stream it to the UI
+const reportWarning = (
+  emit: PipelineEventListener,
+  stage: PipelineStageName,
+  message: string,
+  failedShard?: FailedShard
+) => {
+  logger.warn(message);
+  emit({ type: 'warning', warning: { stage, message }, failedShard });
 };
 
-// Helper function to parse and validate with Zod
-const parseWithZod = <T>(rawText: string, schema: any, agentName: string): T => {
-  console.log(`${agentName} Raw Response:`, rawText.substring(0, 200));
-
-  try {
-    const cleaned = cleanJson(rawText);
-    const parsed = JSON.parse(cleaned);
-
-    // Use Zod to validate and coerce the response
-    const result = schema.safeParse(parsed);
-
-    if (!result.success) {
-      console.error(`${agentName} Zod Validation Error:`, result.error.format());
-      throw new Error(`${agentName} response validation failed: ${result.error.message}`);
+// Helper: run shards in parallel, isolating failures so one bad batch cannot reject the others.
+// A shard that fails SHARD_ATTEMPTS times is returned as a failure for the caller to report;
+// rate-limit and server errors the scheduler already retried fail the shard straight away.
+const runShardsIsolated = async <S, R>(
+  shards: S[],
+  describeShard: (index: number) => string,
+  run: (shard: S, index: number) => Promise<R>
+): Promise<{ results: R[]; failures: ShardFailure[] }> => {
+  const outcomes = await Promise.all(shards.map(async (shard, index): Promise<{ result: R } | { failure: ShardFailure }> => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return { result: await run(shard, index) };
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        if (attempt < SHARD_ATTEMPTS && !wasRetriedByScheduler(error)) {
+          logger.warn(`${describeShard(index)} failed, retrying (attempt ${attempt + 1} of ${SHARD_ATTEMPTS}): ${errorMessage(error)}`);
+          continue;
+        }
+        return { failure: { index, error } };
+      }
     }
+  }));
 
-    return result.data;
-  } catch (error) {
-    console.error(`${agentName} Parse Error:`, error);
-    console.error("Cleaned text:", cleanJson(rawText).substring(0, 500));
-    throw new Error(`Failed to parse ${agentName} response: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
+  return {
+    results: outcomes.flatMap(outcome => ('result' in outcome ? [outcome.result] : [])),
+    failures: outcomes.flatMap(outcome => ('failure' in outcome ? [outcome.failure] : [])),
+  };
 };
 
 // --- AGENT 1: THE EXTRACTOR (VISION) ---
-const runAgentExtractor = async (ai: GoogleGenAI, adFiles: File[]): Promise<RawExtractedItem[]> => {
-  logger.separator('AGENT 1: THE EXTRACTOR (Vision)');
-  logger.log(`Processing ${adFiles.length} file(s): ${adFiles.map(f => f.name).join(', ')}`, '📄');
-
-  const fileParts = await Promise.all(
-    adFiles.map(async (file) => ({
-      inlineData: {
-        data: await fileToBase64(file),
-        mimeType: file.type,
-      },
-    }))
-  );
+// Helper function to extract one shard of ad pages or page tiles
+const extractPageShard = async (
+  provider: LLMProvider,
+  pages: AdTile[],
+  signal?: AbortSignal
+): Promise<{ item: RawExtractedItem; source: AdTile }[]> => {
+  const pageList = pages
+    .map((page, index) => {
+      const tile = page.tileCount > 1 ? ` (section ${page.tileIndex + 1} of ${page.tileCount})` : '';
+      return `${index + 1}. "${page.fileName}" page ${page.pageNumber} of ${page.pageCount}${tile}`;
+    })
+    .join('\n    ');
+  const tileNote = pages.some(page => page.tileCount > 1)
+    ? '\n    Sections are overlapping crops of a larger page: extract every item whose name and price are readable, even at the edges.\n'
+    : '';
 
   const prompt = `
     Role: Agent 1 - The Extractor.
-    Task: Visually scan the attached weekly ad files. Identify every distinct product tile.
-    
+    Task: Visually scan the attached weekly ad pages. Identify every distinct product tile.
+
+    Attached pages (in order):
+    ${pageList}
+    ${tileNote}
     Extract the following for EACH item found:
     - rawName: The specific product name (e.g., "Lay's Potato Chips", "Ribeye Steak").
     - brand: The brand name if clearly visible (e.g., "Lay's", "Tide", "Kraft").
@@ -106,92 +122,214 @@ const runAgentExtractor = async (ai: GoogleGenAI, adFiles: File[]): Promise<RawE
     - dealText: Any promo text (e.g., "Save $1", "Buy 1 Get 1 Free").
     - storeName: The store name if visible on the page (otherwise "Unknown Store").
     - validity: Any date range found (e.g., "Oct 25 - Oct 31").
+    - page: The number of the attached page the item appears on (from the list above).
+    - box: The product tile's bounding box on that page as [ymin, xmin, ymax, xmax], scaled 0-1000.
 
     IMPORTANT: Return ONLY a valid JSON array of objects. Do not include any markdown formatting or code blocks.
-    Output format: [{"rawName": "...", "brand": "...", "price": "...", "unit": "...", "dealText": "...", "storeName": "...", "validity": "..."}]
+    Output format: [{"rawName": "...", "brand": "...", "price": "...", "unit": "...", "dealText": "...", "storeName": "...", "validity": "...", "page": 1, "box": [0, 0, 1000, 1000]}]
   `;
 
-  const response = await ai.models.generateContent({
-    model: MODEL_NAME,
-    contents: [{ role: "user", parts: [{ text: prompt }, ...fileParts] }],
+  const items = await generateStructured(provider, {
+    prompt,
+    files: pages.map(({ data, mimeType }) => ({ data, mimeType })),
+    json: true,
+    schema: Agent1ResponseSchema,
+    agentName: "Agent 1",
+    signal,
+  });
+
+  // Attach provenance; an out-of-range page number falls back to the shard's first page
+  return items.map(({ page, box, ...item }) => {
+    const source = (page && pages[page - 1]) || pages[0];
+    const tileBox = parseBoundingBox(box);
+    const sourceBox = tileBox && source.region ? toPageBox(tileBox, source.region) : tileBox;
+    return {
+      item: { ...item, sourceFile: source.fileName, sourcePage: source.pageNumber, sourceBox },
+      source,
+    };
   });
+};
+
+const tileKey = (tile: { fileName: string; pageNumber: number; tileIndex: number }) =>
+  `${tile.fileName}#${tile.pageNumber}#${tile.tileIndex}`;
+
+/**
+ * Scan the ad files; `onlyTiles` limits extraction to those page tiles (when retrying failed batches).
+ * Batches that keep failing are reported as warnings and returned as failures.
+ */
+const runAgentExtractor = async (
+  provider: LLMProvider,
+  adFiles: File[],
+  tiling: TilingOptions,
+  emit: PipelineEventListener,
+  signal?: AbortSignal,
+  onlyTiles?: Set<string>
+): Promise<{ items: RawExtractedItem[]; pages: AdPage[]; failures: ShardFailure[] }> => {
+  logger.separator('AGENT 1: THE EXTRACTOR (Vision)');
+  logger.log(`Processing ${adFiles.length} file(s) with ${provider.name}/${provider.model}: ${adFiles.map(f => f.name).join(', ')}`, '📄');
+
+  // Split PDFs into pages and large scans into tiles so each part gets the model's full attention (MAP stage)
+  const pages: AdPage[] = [];
+  const tiles: AdTile[] = [];
+  // One page at a time: full-size scans are decoded onto canvases
+  for (const page of await splitAdFiles(adFiles, signal)) {
+    throwIfAborted(signal);
+    const processed = await preprocessPage(page, tiling);
+    pages.push(processed.page);
+    tiles.push(...processed.tiles.filter(tile => !onlyTiles || onlyTiles.has(tileKey(tile))));
+  }
+
+  const shards = createShards(tiles, PAGES_PER_SHARD);
+  const tracker = createProgressTracker(shards.length);
+  logger.log(`Extracting ${pages.length} page(s) as ${tiles.length} image(s) in ${shards.length} parallel request(s)`, '⚡');
 
-  const extractedItems = parseWithZod<RawExtractedItem[]>(response.text || "[]", Agent1ResponseSchema, "Agent 1");
+  const shardLabel = (index: number) => {
+    const [first] = shards[index];
+    const tile = first.tileCount > 1 ? ` section ${first.tileIndex + 1} of ${first.tileCount}` : '';
+    return `${first.fileName} page ${shards[index].map(page => page.pageNumber).join(', ')}${tile}`;
+  };
+  const { results: shardResults, failures } = await runShardsIsolated(
+    shards,
+    index => `Agent 1: ${shardLabel(index)}`,
+    async (shard) => {
+      const items = await extractPageShard(provider, shard, signal);
+      tracker.increment();
+      emit({
+        type: 'items_extracted',
+        fileName: shard[0].fileName,
+        pageNumbers: Array.from(new Set(shard.map(page => page.pageNumber))),
+        items: items.map(({ item }) => item),
+        completedBatches: tracker.current,
+        totalBatches: tracker.total,
+      });
+      emit({ type: 'status', agent: 'extractor', message: `Agent 1: Scanned ${tracker.current} of ${tracker.total} page batches (${tracker.percentage}%)...` });
+      return items;
+    }
+  );
+  failures.forEach(({ index, error }) => reportWarning(
+    emit,
+    'extracting',
+    `Agent 1: ${shardLabel(index)} failed and was skipped (${errorMessage(error)})`,
+    {
+      id: uuidv4(),
+      stage: 'extracting',
+      label: shardLabel(index),
+      error: errorMessage(error),
+      pages: shards[index].map(({ fileName, pageNumber, tileIndex }) => ({ fileName, pageNumber, tileIndex })),
+    }
+  ));
+
+  // Items straddling a tile boundary are read by both tiles (REDUCE stage)
+  const extracted = shardResults.flat();
+  const extractedItems = dedupeTiledItems(extracted.map(({ item, source }) => ({ item, tile: tiles.indexOf(source) })));
+  if (extractedItems.length < extracted.length) {
+    logger.log(`Merged ${extracted.length - extractedItems.length} item(s) repeated across overlapping tiles`, '🧩');
+  }
   console.log('✅ Agent 1 extracted', extractedItems.length, 'raw items');
   console.log('📦 Sample items:', extractedItems.slice(0, 3).map(i => i.rawName));
   console.log('🔄 Handoff to Agent 2: Librarian');
 
-  return extractedItems;
+  return { items: extractedItems, pages, failures };
 };
 
 // --- AGENT 2: THE LIBRARIAN (NORMALIZATION) ---
+// Restore page provenance the model dropped: match the raw item by name (and page), else use the shard's only page
+const inheritSource = <T extends { rawName?: string; sourceFile?: string; sourcePage?: number }>(
+  item: T,
+  shard: RawExtractedItem[]
+): T & Pick<RawExtractedItem, 'sourceFile' | 'sourcePage' | 'sourceBox'> => {
+  const samePage = (raw: RawExtractedItem) =>
+    !item.sourceFile || (raw.sourceFile === item.sourceFile && raw.sourcePage === item.sourcePage);
+
+  const source = shard.find(raw => raw.rawName === item.rawName && samePage(raw));
+  if (source) {
+    return { ...item, sourceFile: source.sourceFile, sourcePage: source.sourcePage, sourceBox: source.sourceBox };
+  }
+  if (item.sourceFile && item.sourcePage) return item;
+
+  const sources = new Set(shard.map(raw => `${raw.sourceFile}#${raw.sourcePage}`));
+  return sources.size === 1 ? { ...item, sourceFile: shard[0].sourceFile, sourcePage: shard[0].sourcePage } : item;
+};
+
 // Helper function to process a single shard
 const processLibrarianShard = async (
-  ai: GoogleGenAI,
+  provider: LLMProvider,
   shard: RawExtractedItem[],
   shardIndex: number,
   totalShards: number,
-  onStatusUpdate?: (status: string) => void
+  emit: PipelineEventListener,
+  signal?: AbortSignal
 ): Promise<MasterInventoryItem[]> => {
-  if (onStatusUpdate) {
-    onStatusUpdate(`Agent 2: Normalizing Batch ${shardIndex + 1} of ${totalShards}...`);
-  }
+  emit({ type: 'status', agent: 'librarian', message: `Agent 2: Normalizing Batch ${shardIndex + 1} of ${totalShards}...` });
 
   const prompt = `
     Role: Agent 2 - The Librarian.
     Task: Clean, normalize, and extract details from the raw inventory data.
 
     Input Data:
-    ${JSON.stringify(shard)}
+    ${JSON.stringify(shard.map(({ sourceBox, ...raw }) => raw))}
 
     Instructions:
     1. Normalize Units: Convert varied text ("$3.99/lb", "3.99 per pound") into a clean format (e.g. "1 lb", "12 oz").
     2. Flag High-Value: Set 'isLossLeader' to true if the deal looks exceptionally good.
     3. Construct 'normalizedName': A clean, searchable name (e.g. "Potato Chips" from "Lays Potato Chips Party Size").
     4. Identify 'brand': Extract the brand name (e.g. "Lay's", "Tide") if present in the raw data or inferable. If generic, use "Store Brand" or leave empty.
+    5. Copy 'sourceFile' and 'sourcePage' unchanged from the input item.
 
     IMPORTANT: Do NOT categorize the items. This will be done by a separate system.
 
     IMPORTANT: Return ONLY a valid JSON array of objects. Do not include any markdown formatting or code blocks.
-    Output format: [{"storeName": "...", "rawName": "...", "normalizedName": "...", "brand": "...", "price": "...", "unit": "...", "dealDescription": "...", "isLossLeader": true/false, "validDates": "...", "originalPrice": "..."}]
+    Output format: [{"storeName": "...", "rawName": "...", "normalizedName": "...", "brand": "...", "price": "...", "unit": "...", "dealDescription": "...", "isLossLeader": true/false, "validDates": "...", "originalPrice": "...", "sourceFile": "...", "sourcePage": 1}]
   `;
 
-  const response = await ai.models.generateContent({
-    model: MODEL_NAME,
-    contents: [{ role: "user", parts: [{ text: prompt }] }],
+  const items = await generateStructured(provider, {
+    prompt,
+    json: true,
+    schema: Agent2ResponseSchema,
+    agentName: "Agent 2",
+    signal,
   });
 
-  const items = parseWithZod<any[]>(response.text || "[]", Agent2ResponseSchema, "Agent 2");
-
   // Categorize items using Vector Classifier (batch processing)
   const textsToClassify = items.map(item => item.normalizedName || item.rawName || "");
   logger.log(`Classifying ${textsToClassify.length} items using vector embeddings...`, '🧠');
-  const classifications = await classifyBatch(textsToClassify);
+  const classifications = await classifyBatch(textsToClassify, signal);
   logger.log(`Batch ${shardIndex + 1}: Classified items into categories`, '✅');
 
-  const categorizedItems = items.map((item, index) => ({
-    ...item,
-    id: uuidv4(),
-    category: classifications[index].parentCategory,
-    productName: item.normalizedName,
-    itemName: item.normalizedName,
-    isSale: item.isLossLeader || false,
-  }));
+  const categorizedItems = items.map((item, index) => {
+    const priced = {
+      ...inheritSource(item, shard),
+      parsedPrice: parsePrice(item.price, item.dealDescription),
+      parsedOriginalPrice: item.originalPrice ? parsePrice(item.originalPrice) : undefined,
+      measure: parseMeasure(item.unit),
+    };
+
+    return {
+      ...priced,
+      id: uuidv4(),
+      category: classifications[index].parentCategory,
+      productName: item.normalizedName,
+      itemName: item.normalizedName,
+      isSale: item.isLossLeader || false,
+      unitPrice: computeUnitPrice(priced),
+    };
+  });
 
   return categorizedItems as MasterInventoryItem[];
 };
 
 const runAgentLibrarian = async (
-  ai: GoogleGenAI,
+  provider: LLMProvider,
   rawItems: RawExtractedItem[],
-  onStatusUpdate?: (status: string) => void
-): Promise<MasterInventoryItem[]> => {
+  emit: PipelineEventListener,
+  signal?: AbortSignal
+): Promise<{ items: MasterInventoryItem[]; failures: ShardFailure[] }> => {
   logger.separator('AGENT 2: THE LIBRARIAN (Normalization & Categorization)');
   logger.log(`Received ${rawItems.length} raw items from Agent 1`, '📥');
 
   // Initialize the vector classifier (only runs once)
-  if (onStatusUpdate) onStatusUpdate("Agent 2: Initializing Vector Classifier...");
-  await initializeVectorClassifier();
+  emit({ type: 'status', agent: 'librarian', message: "Agent 2: Initializing Vector Classifier..." });
+  await abortable(initializeVectorClassifier(), signal);
 
   // Split items into shards for parallel processing
   const shards = createShards(rawItems, SHARD_SIZE);
@@ -199,19 +337,45 @@ const runAgentLibrarian = async (
   logger.log(`Split into ${totalShards} shards of ${SHARD_SIZE} items each`, '📊');
   logger.log('Processing shards in parallel (MAP stage)...', '⚡');
 
-  if (onStatusUpdate) {
-    onStatusUpdate(`Agent 2: Processing ${rawItems.length} items in ${totalShards} batches...`);
-  }
-
-  // Process all shards in parallel (MAP stage)
-  const shardResults = await Promise.all(
-    shards.map((shard, index) =>
-      processLibrarianShard(ai, shard, index, totalShards, onStatusUpdate)
-    )
+  emit({ type: 'status', agent: 'librarian', message: `Agent 2: Processing ${rawItems.length} items in ${totalShards} batches...` });
+
+  // Process all shards in parallel (MAP stage), publishing each shard's items as soon as it is categorized
+  const tracker = createProgressTracker(totalShards);
+  const normalizedSoFar: MasterInventoryItem[] = [];
+  const { results: shardResults, failures } = await runShardsIsolated(
+    shards,
+    index => `Agent 2: Batch ${index + 1} of ${totalShards}`,
+    async (shard, index) => {
+      const items = await processLibrarianShard(provider, shard, index, totalShards, emit, signal);
+      tracker.increment();
+      normalizedSoFar.push(...items);
+      emit({
+        type: 'shard_normalized',
+        shardIndex: index,
+        completedShards: tracker.current,
+        totalShards,
+        items,
+        categorizedDeals: categorizeInventory(normalizedSoFar),
+      });
+      return items;
+    }
   );
+  failures.forEach(({ index, error }) => reportWarning(
+    emit,
+    'normalizing',
+    `Agent 2: Batch ${index + 1} of ${totalShards} (${shards[index].length} items) failed and was skipped (${errorMessage(error)})`,
+    {
+      id: uuidv4(),
+      stage: 'normalizing',
+      label: `Batch ${index + 1} of ${totalShards} (${shards[index].length} items)`,
+      error: errorMessage(error),
+      items: shards[index],
+    }
+  ));
 
-  // Flatten results
-  const allItems = shardResults.flat();
+  // Flatten results and merge listings repeated across pages, shards and files (REDUCE stage)
+  emit({ type: 'status', agent: 'librarian', message: "Agent 2: Merging duplicate listings..." });
+  const allItems = await dedupeInventory(shardResults.flat(), signal);
 
   // Log category distribution
   const categoryCount: Record<string, number> = {};
@@ -223,15 +387,13 @@ const runAgentLibrarian = async (
   console.log('📊 Category distribution:', categoryCount);
   console.log('🔄 Handoff to Agent 3: Interpreter');
 
-  if (onStatusUpdate) {
-    onStatusUpdate(`Agent 2: Processed ${allItems.length} items successfully.`);
-  }
+  emit({ type: 'status', agent: 'librarian', message: `Agent 2: Processed ${allItems.length} items successfully.` });
 
-  return allItems;
+  return { items: allItems, failures };
 };
 
 // --- AGENT 3: THE INTERPRETER (LIST PREP) ---
-const runAgentInterpreter = async (ai: GoogleGenAI, userList: string): Promise<string[]> => {
+const runAgentInterpreter = async (provider: LLMProvider, userList: string, signal?: AbortSignal): Promise<string[]> => {
   logger.separator('AGENT 3: THE INTERPRETER (List Preparation)');
   logger.log(`User's raw list: ${userList}`, '📝');
 
@@ -254,39 +416,18 @@ const runAgentInterpreter = async (ai: GoogleGenAI, userList: string): Promise<s
     Wrong format: ["keyword1", "keyword2"] (this is NOT acceptable)
   `;
 
-  const response = await ai.models.generateContent({
-    model: MODEL_NAME,
-    contents: [{ role: "user", parts: [{ text: prompt }] }],
+  // Accepts a bare keyword array as well as the requested object
+  const { expandedKeywords } = await generateStructured(provider, {
+    prompt,
+    json: true,
+    schema: Agent3LenientResponseSchema,
+    agentName: "Agent 3",
+    signal,
   });
 
-  const rawText = response.text || "{}";
-
-  // Handle case where LLM returns array instead of object
-  try {
-    const cleaned = cleanJson(rawText);
-    const parsed = JSON.parse(cleaned);
-
-    // If it's an array, wrap it in the expected object format
-    if (Array.isArray(parsed)) {
-      logger.warn("Agent 3 returned array instead of object, wrapping it");
-      logger.log(`Expanded keywords: ${parsed.join(', ')}`, '✅');
-      logger.log('Handoff to Agent 4: Matcher', '🔄');
-      return parsed;
-    }
-
-    const result = Agent3ResponseSchema.safeParse(parsed);
-
-    if (!result.success) {
-      console.error("Agent 3 Zod Validation Error:", result.error.format());
-      throw new Error(`Agent 3 response validation failed: ${result.error.message}`);
-    }
-
-    return result.data.expandedKeywords;
-  } catch (error) {
-    console.error("Agent 3 Parse Error:", error);
-    console.error("Cleaned text:", cleanJson(rawText).substring(0, 500));
-    throw new Error(`Failed to parse Agent 3 response: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
+  logger.log(`Expanded keywords: ${expandedKeywords.join(', ')}`, '✅');
+  logger.log('Handoff to Agent 4: Matcher', '🔄');
+  return expandedKeywords;
 };
 
 // --- AGENT 4: THE MATCHER (SEARCH & RETRIEVAL) ---
@@ -305,14 +446,30 @@ const groupByCategory = (items: MasterInventoryItem[]): Record<string, MasterInv
 };
 
 const runAgentMatcher = async (
-  ai: GoogleGenAI,
+  provider: LLMProvider,
   keywords: string[],
-  inventory: MasterInventoryItem[]
-): Promise<{ matches: GroceryMatch[], summary: string }> => {
+  inventory: MasterInventoryItem[],
+  retrieval?: Partial<RetrievalOptions>,
+  signal?: AbortSignal
+): Promise<{ matches: GroceryMatch[], unmatched: UnmatchedListItem[], alternatives: Record<string, GroceryMatch[]>, summary: string }> => {
   logger.separator('AGENT 4: THE MATCHER (Search & Retrieval)');
   logger.log(`Matching ${keywords.length} keywords against ${inventory.length} inventory items`, '🔍');
   logger.log(`Keywords: ${keywords.join(', ')}`, '🎯');
 
+  // Retrieval: only embedding-similar items reach the prompt, with just the fields the matcher needs
+  const candidateItems = await retrieveCandidates(keywords, inventory, retrieval, signal);
+  const candidates = candidateItems.map(item => ({
+    id: item.id,
+    storeName: item.storeName,
+    normalizedName: item.normalizedName,
+    brand: item.brand,
+    price: item.price,
+    unit: item.unit,
+    dealDescription: item.dealDescription,
+    isLossLeader: item.isLossLeader,
+    category: item.category,
+  }));
+
   const prompt = `
     Role: Agent 4 - The Matcher.
     Task: Match the User's Clean Keywords against the Master Store Inventory.
@@ -321,7 +478,7 @@ const runAgentMatcher = async (
     ${JSON.stringify(keywords)}
 
     Master Store Inventory:
-    ${JSON.stringify(inventory)}
+    ${JSON.stringify(candidates)}
 
     Instructions:
     1. Semantic Search: Compare the meaning of the user's keyword against the inventory. 
@@ -329,102 +486,258 @@ const runAgentMatcher = async (
        - "Dog Food" matches "Purina".
        - DO NOT match unrelated items.
     2. Select the Best Deals: If multiple matches exist, prioritize lowest price or loss leaders.
-    3. Generate a Summary: Write a brief summary of the savings.
+    3. Explain: Set "itemName" to the user's keyword exactly as given and add a one-sentence "rationale" for why the deal fits it.
+    4. Account for Every Keyword: Each keyword must appear either in "matches" or in "unmatched". Use the reason "Not on sale this week" when nothing in the inventory fits.
+    5. Generate a Summary: Write a brief summary of the savings.
 
     IMPORTANT: Return ONLY a valid JSON object. Do not include any markdown formatting or code blocks.
-    Output format: {"matches": [{"id": "...", "itemName": "...", "dealDescription": "...", "confidence": 0.95}], "summary": "..."}
+    Output format: {"matches": [{"id": "...", "itemName": "...", "dealDescription": "...", "confidence": 0.95, "rationale": "..."}], "unmatched": [{"keyword": "...", "reason": "Not on sale this week"}], "summary": "..."}
   `;
 
-  const response = await ai.models.generateContent({
-    model: MODEL_NAME,
-    contents: [{ role: "user", parts: [{ text: prompt }] }],
+  const parsed = await generateStructured(provider, {
+    prompt,
+    json: true,
+    schema: Agent4ResponseSchema,
+    agentName: "Agent 4",
+    signal,
   });
 
-  const parsed = parseWithZod<{ matches: any[], summary: string }>(response.text || "{}", Agent4ResponseSchema, "Agent 4");
-  const rawMatches = parsed.matches;
-
-  // Hydrate matches with full inventory data
-  const hydratedMatches: GroceryMatch[] = rawMatches.map((m: any) => {
-    const originalItem = inventory.find(i => i.id === m.id);
-    if (!originalItem) return null;
-    return {
-      ...originalItem, // raw inventory data
-      ...m, // matcher overrides (itemName, etc)
-      productName: originalItem.normalizedName,
-      quantity: originalItem.unit, // Map unit to quantity for display
-      brand: originalItem.brand,   // Ensure brand is passed
-      isSale: originalItem.isLossLeader,
-    };
-  }).filter((m: any) => m !== null);
+  // Unknown ids are recovered from the candidates the matcher was shown
+  const { matches: hydratedMatches, recovered, dropped } = hydrateMatches(parsed.matches, inventory, candidateItems);
+  const unmatched = findUnmatchedKeywords(keywords, hydratedMatches, parsed.unmatched);
+  const alternatives = findCloseAlternatives(keywords, inventory, hydratedMatches);
 
   console.log('✅ Agent 4 found', hydratedMatches.length, 'matches');
   console.log('📦 Matched items:', hydratedMatches.map(m => m.itemName));
   console.log('💰 Summary:', parsed.summary);
+  if (recovered.length > 0 || dropped.length > 0) {
+    logger.log(`Hydration: ${recovered.length} match(es) recovered, ${dropped.length} dropped`, '🩹');
+  }
+  if (unmatched.length > 0) {
+    logger.log(`No deal for: ${unmatched.map(u => u.keyword).join(', ')}`, '🚫');
+  }
 
   return {
     matches: hydratedMatches,
+    unmatched,
+    alternatives,
     summary: parsed.summary || "Here are the best deals found for your list.",
   };
 };
 
+/**
+ * Group ALL inventory items by category for the "Deal Explorer", in taxonomy order
+ */
+export const categorizeInventory = (inventory: MasterInventoryItem[]): DealCategory[] => {
+  return CATEGORIES.map(cat => ({
+    category: cat,
+    items: inventory
+      .filter(item => item.category === cat)
+      .map(item => ({
+        ...item,
+        productName: item.normalizedName,
+        itemName: item.normalizedName,
+        quantity: item.unit, // Map unit to quantity
+        brand: item.brand,
+        isSale: item.isLossLeader,
+        confidence: 1
+      } as GroceryMatch))
+  })).filter(cat => cat.items.length > 0);
+};
+
+export interface AnalyzeOptions {
+  // Per-agent provider overrides (e.g. a mock provider); unset agents fall back to env configuration
+  providers?: Partial<AgentProviders>;
+  // Serve every model call from a recorded fixture instead of a live provider
+  replay?: LLMFixture;
+  // Capture every model request/response pair of this run
+  recorder?: FixtureRecorder;
+  // Large image tiling overrides (tile size, overlap, ...); defaults come from env
+  tiling?: Partial<TilingOptions>;
+  // Agent 4 candidate retrieval overrides (threshold, top-k, ...)
+  retrieval?: Partial<RetrievalOptions>;
+  // Cancels every in-flight model call and classifier request; the run rejects with an AbortError
+  signal?: AbortSignal;
+  // Paces configured providers' requests (defaults to the page-wide scheduler); overrides are not scheduled
+  scheduler?: RequestScheduler;
+  // Reuses validated Agent 1-3 responses for unchanged ads and lists; not read while recording
+  cache?: ResponseCache;
+}
+
+type MatchResult = Pick<AnalysisResult, 'matches' | 'summary'> & Required<Pick<AnalysisResult, 'unmatched' | 'alternatives'>>;
+
+type IngestionResult = Pick<AnalysisResult, 'inventory' | 'categorizedDeals' | 'pages'>;
+
+// Helper: providers for a run, honouring replay, overrides, caching and recording
+const resolveRunProviders = (options: AnalyzeOptions): AgentProviders => {
+  const providers = options.replay
+    ? { ...createReplayProviders(options.replay), ...options.providers }
+    : resolveAgentProviders(options.providers, options.scheduler);
+  if (options.recorder) {
+    // A fixture has to capture every call, so nothing is served from the cache
+    return options.recorder.wrapAll(providers);
+  }
+  if (!options.cache) return providers;
+
+  // Agent 4 always runs: its prompt carries this run's inventory ids
+  return {
+    ...providers,
+    extractor: withResponseCache(providers.extractor, options.cache),
+    librarian: withResponseCache(providers.librarian, options.cache),
+    interpreter: withResponseCache(providers.interpreter, options.cache),
+  };
+};
+
+// Helper: forward events to the caller while collecting the warnings and failed batches for the result
+const collectWarnings = (onEvent?: PipelineEventListener) => {
+  const warnings: PipelineWarning[] = [];
+  const failedShards: FailedShard[] = [];
+  const emit: PipelineEventListener = (event) => {
+    if (event.type === 'warning') {
+      warnings.push(event.warning);
+      if (event.failedShard) failedShards.push(event.failedShard);
+    }
+    onEvent?.(event);
+  };
+  return { emit, warnings, failedShards };
+};
+
+// Helper: end a run that threw, telling a cancellation apart from a failure
+const reportRunError = (emit: PipelineEventListener, error: unknown) => {
+  if (isAbortError(error)) {
+    logger.log('Pipeline cancelled', '🛑');
+    emit({ type: 'cancelled' });
+    return;
+  }
+  console.error("Gemini Pipeline Error:", error);
+  emit({ type: 'failed', error: errorMessage(error) });
+};
+
+// Helper: match the list against the inventory without a model (Agent 3 & 4 stand-ins)
+const matchKeywordsOffline = async (
+  keywords: string[],
+  inventory: MasterInventoryItem[],
+  signal?: AbortSignal
+): Promise<MatchResult> => {
+  const parsed = await matchOffline(keywords, inventory, {}, signal);
+  const { matches } = hydrateMatches(parsed.matches, inventory);
+  return {
+    matches,
+    unmatched: findUnmatchedKeywords(keywords, matches, parsed.unmatched),
+    alternatives: findCloseAlternatives(keywords, inventory, matches),
+    summary: parsed.summary,
+  };
+};
+
+/**
+ * Agents 1 and 2: scan the ads and normalize what they list into the categorized inventory.
+ * Skipped batches are reported through `emit`; the run only fails when a stage produced nothing.
+ */
+const runIngestion = async (
+  providers: AgentProviders,
+  adFiles: File[],
+  emit: PipelineEventListener,
+  options: AnalyzeOptions
+): Promise<IngestionResult> => {
+  const { signal } = options;
+
+  // --- Phase 1: Ingestion ---
+  emit({ type: 'stage_started', stage: 'extracting' });
+  emit({ type: 'status', agent: 'extractor', message: "Agent 1 (Vision): Scanning weekly ads for products..." });
+  const extraction = await runAgentExtractor(providers.extractor, adFiles, resolveTilingOptions(options.tiling), emit, signal);
+  const rawItems = extraction.items;
+
+  if (rawItems.length === 0) {
+    // Every page failing is a run failure (e.g. the quota is exhausted), not a partial result
+    if (extraction.failures.length > 0) throw extraction.failures[0].error;
+    throw new Error("Could not identify any products in the uploaded files. Please ensure they are clear images or PDFs.");
+  }
+
+  emit({ type: 'stage_started', stage: 'normalizing', total: Math.ceil(rawItems.length / SHARD_SIZE) });
+  emit({ type: 'status', agent: 'librarian', message: `Agent 2 (Librarian): Organizing ${rawItems.length} found items into aisles...` });
+  const librarian = await runAgentLibrarian(providers.librarian, rawItems, emit, signal);
+  const inventory = librarian.items;
+  if (inventory.length === 0 && librarian.failures.length > 0) {
+    throw librarian.failures[0].error;
+  }
+  const categorizedDeals = categorizeInventory(inventory);
+  emit({ type: 'categories_ready', inventory, categorizedDeals });
+
+  return { inventory, categorizedDeals, pages: toPageImages(extraction.pages) };
+};
+
+/**
+ * Agents 3 and 4: expand the list and match it against the inventory.
+ * Either agent failing falls back to its offline stand-in, reported as a warning, so the
+ * inventory already extracted still produces matches.
+ */
+const runListMatching = async (
+  providers: AgentProviders,
+  groceryList: string,
+  inventory: MasterInventoryItem[],
+  emit: PipelineEventListener,
+  options: AnalyzeOptions
+): Promise<MatchResult> => {
+  const { signal } = options;
+
+  // --- Phase 2: List Prep ---
+  emit({ type: 'stage_started', stage: 'interpreting', total: 1 });
+  emit({ type: 'status', agent: 'interpreter', message: "Agent 3 (Interpreter): Refining and expanding your shopping list..." });
+  let cleanKeywords: string[];
+  try {
+    cleanKeywords = await runAgentInterpreter(providers.interpreter, groceryList, signal);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    cleanKeywords = expandListOffline(groceryList);
+    reportWarning(emit, 'interpreting', `Agent 3 failed, so your list was expanded with built-in rules instead (${errorMessage(error)})`);
+  }
+  emit({ type: 'keywords_ready', keywords: cleanKeywords });
+
+  // --- Phase 3: Matching ---
+  emit({ type: 'stage_started', stage: 'matching', total: 1 });
+  emit({ type: 'status', agent: 'matcher', message: "Agent 4 (Matcher): Comparing your list against local prices..." });
+  let matchResult: MatchResult;
+  try {
+    matchResult = await runAgentMatcher(providers.matcher, cleanKeywords, inventory, options.retrieval, signal);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    matchResult = await matchKeywordsOffline(cleanKeywords, inventory, signal);
+    reportWarning(emit, 'matching', `Agent 4 failed, so deals were matched on this device instead (${errorMessage(error)})`);
+  }
+  emit({ type: 'matches_found', ...matchResult });
+  return matchResult;
+};
+
 export const analyzeGroceryAds = async (
   groceryList: string,
   adFiles: File[],
-  onStatusUpdate?: (status: string) => void
+  onEvent?: PipelineEventListener,
+  options: AnalyzeOptions = {}
 ): Promise<AnalysisResult> => {
+  const { emit, warnings, failedShards } = collectWarnings(onEvent);
+
   // Reset logger for new run
   logger.reset();
   logger.log('GROCERY DEAL HUNTER PIPELINE START', '🚀');
   logger.log(`User List: ${groceryList}`, '📋');
   logger.log(`Files: ${adFiles.map(f => f.name).join(', ')}`, '📁');
 
-  if (!import.meta.env.VITE_API_KEY) {
-    throw new Error("API Key is missing");
-  }
-
-  const ai = new GoogleGenAI({ apiKey: import.meta.env.VITE_API_KEY });
-
   try {
-    // --- Phase 1: Ingestion ---
-    if (onStatusUpdate) onStatusUpdate("Agent 1 (Vision): Scanning weekly ads for products...");
-    const rawItems = await runAgentExtractor(ai, adFiles);
-
-    if (rawItems.length === 0) {
-      throw new Error("Could not identify any products in the uploaded files. Please ensure they are clear images or PDFs.");
-    }
-
-    if (onStatusUpdate) onStatusUpdate(`Agent 2 (Librarian): Organizing ${rawItems.length} found items into aisles...`);
-    const masterInventory = await runAgentLibrarian(ai, rawItems, onStatusUpdate);
-
-    // --- Phase 2: List Prep ---
-    if (onStatusUpdate) onStatusUpdate("Agent 3 (Interpreter): Refining and expanding your shopping list...");
-    const cleanKeywords = await runAgentInterpreter(ai, groceryList);
-
-    // --- Phase 3: Matching ---
-    if (onStatusUpdate) onStatusUpdate("Agent 4 (Matcher): Comparing your list against local prices...");
-    const matchResult = await runAgentMatcher(ai, cleanKeywords, masterInventory);
+    const providers = resolveRunProviders(options);
+    const ingestion = await runIngestion(providers, adFiles, emit, options);
+    const matchResult = await runListMatching(providers, groceryList, ingestion.inventory, emit, options);
 
     // --- Final Assembly ---
-    // Group ALL inventory items by category for the "Deal Explorer"
-    const categorizedDeals: DealCategory[] = CATEGORIES.map(cat => ({
-      category: cat,
-      items: masterInventory
-        .filter(item => item.category === cat)
-        .map(item => ({
-          ...item,
-          productName: item.normalizedName,
-          itemName: item.normalizedName,
-          quantity: item.unit, // Map unit to quantity
-          brand: item.brand,
-          isSale: item.isLossLeader,
-          confidence: 1
-        } as GroceryMatch))
-    })).filter(cat => cat.items.length > 0);
-
-    const result = {
+    const result: AnalysisResult = {
       summary: matchResult.summary,
       matches: matchResult.matches,
-      categorizedDeals: categorizedDeals
+      unmatched: matchResult.unmatched,
+      alternatives: matchResult.alternatives,
+      categorizedDeals: ingestion.categorizedDeals,
+      inventory: ingestion.inventory,
+      pages: ingestion.pages,
+      warnings,
+      failedShards,
     };
 
     console.log('\n✅ ========== PIPELINE COMPLETE ==========');
@@ -432,12 +745,214 @@ export const analyzeGroceryAds = async (
     console.log('  - Matches:', result.matches.length);
     console.log('  - Categories:', result.categorizedDeals.length);
     console.log('  - Total items in explorer:', result.categorizedDeals.reduce((sum, cat) => sum + cat.items.length, 0));
+    console.log('  - Warnings:', warnings.length, `(${failedShards.length} batch(es) can be retried)`);
     console.log('==========================================\n');
 
+    emit({ type: 'complete', result });
+    return result;
+
+  } catch (error) {
+    reportRunError(emit, error);
+    throw error;
+  }
+};
+
+/**
+ * Agents 1 and 2 only: build the categorized inventory from the ads, without a shopping list.
+ * Any number of lists can then be matched against `result.inventory` with matchShoppingList.
+ * The result has no matches; its summary describes the inventory.
+ */
+export const ingestFlyers = async (
+  adFiles: File[],
+  onEvent?: PipelineEventListener,
+  options: AnalyzeOptions = {}
+): Promise<AnalysisResult> => {
+  const { emit, warnings, failedShards } = collectWarnings(onEvent);
+
+  logger.reset();
+  logger.log('GROCERY DEAL HUNTER INVENTORY BUILD', '🚀');
+  logger.log(`Files: ${adFiles.map(f => f.name).join(', ')}`, '📁');
+
+  try {
+    const providers = resolveRunProviders(options);
+    const ingestion = await runIngestion(providers, adFiles, emit, options);
+    const storeCount = new Set(ingestion.inventory.map(item => item.storeName)).size;
+    const result: AnalysisResult = {
+      ...ingestion,
+      matches: [],
+      summary: `Built an inventory of ${ingestion.inventory.length} deals from ${storeCount} store(s). Match any shopping list against it.`,
+      warnings,
+      failedShards,
+    };
+    logger.log(`Inventory ready: ${ingestion.inventory.length} items`, '✅');
+
+    emit({ type: 'complete', result });
+    return result;
+
+  } catch (error) {
+    reportRunError(emit, error);
+    throw error;
+  }
+};
+
+/**
+ * Agents 3 and 4 only: match a shopping list against an inventory built earlier
+ * (by ingestFlyers, a full analysis or a saved run), without scanning any ads.
+ */
+export const matchShoppingList = async (
+  groceryList: string,
+  inventory: MasterInventoryItem[],
+  onEvent?: PipelineEventListener,
+  options: AnalyzeOptions = {}
+): Promise<AnalysisResult> => {
+  const { emit, warnings } = collectWarnings(onEvent);
+
+  logger.reset();
+  logger.log('GROCERY DEAL HUNTER LIST MATCHING', '🚀');
+  logger.log(`User List: ${groceryList}`, '📋');
+  logger.log(`Inventory: ${inventory.length} items`, '📦');
+
+  try {
+    if (inventory.length === 0) {
+      throw new Error("There is no inventory to match against. Build one from this week's ads first.");
+    }
+    const providers = resolveRunProviders(options);
+
+    const categorizedDeals = categorizeInventory(inventory);
+    emit({ type: 'categories_ready', inventory, categorizedDeals });
+
+    const matchResult = await runListMatching(providers, groceryList, inventory, emit, options);
+    const result: AnalysisResult = { ...matchResult, categorizedDeals, inventory, warnings, failedShards: [] };
+
+    emit({ type: 'complete', result });
+    return result;
+
+  } catch (error) {
+    reportRunError(emit, error);
+    throw error;
+  }
+};
+
+/**
+ * Run only the batches a previous analysis skipped, then match the list against the grown inventory.
+ * Pages are re-read from `adFiles`; a batch whose file is no longer uploaded stays failed.
+ * An empty list (an inventory-only run) rebuilds the inventory without matching.
+ * The result carries just this run's warnings, so batches that fail again can be retried again.
+ */
+export const retryFailedShards = async (
+  previous: AnalysisResult,
+  groceryList: string,
+  adFiles: File[],
+  onEvent?: PipelineEventListener,
+  options: AnalyzeOptions = {}
+): Promise<AnalysisResult> => {
+  const { emit, warnings, failedShards } = collectWarnings(onEvent);
+  const { signal } = options;
+  const retrying = previous.failedShards || [];
+
+  logger.separator('RETRYING FAILED BATCHES');
+  logger.log(`Retrying ${retrying.length} failed batch(es): ${retrying.map(shard => shard.label).join(', ')}`, '🔁');
+
+  try {
+    const providers = resolveRunProviders(options);
+
+    // Agent 1 batches whose file is still uploaded are scanned again
+    const fileNames = new Set(adFiles.map(file => file.name));
+    const pageShards = retrying.filter(shard => shard.stage === 'extracting');
+    const isUploaded = (shard: FailedShard) => (shard.pages || []).every(page => fileNames.has(page.fileName));
+    const rescannable = pageShards.filter(isUploaded);
+    pageShards.filter(shard => !isUploaded(shard)).forEach(shard => reportWarning(
+      emit,
+      'extracting',
+      `Agent 1: ${shard.label} was not retried because its file is no longer uploaded`,
+      shard
+    ));
+
+    const rawItems = retrying.flatMap(shard => (shard.stage === 'normalizing' ? shard.items || [] : []));
+    if (rescannable.length > 0) {
+      const tiles = new Set(rescannable.flatMap(shard => (shard.pages || []).map(tileKey)));
+      const files = adFiles.filter(file => rescannable.some(shard => shard.pages?.some(page => page.fileName === file.name)));
+
+      emit({ type: 'stage_started', stage: 'extracting' });
+      emit({ type: 'status', agent: 'extractor', message: `Agent 1 (Vision): Re-scanning ${tiles.size} page(s)...` });
+      const extraction = await runAgentExtractor(providers.extractor, files, resolveTilingOptions(options.tiling), emit, signal, tiles);
+      rawItems.push(...extraction.items);
+    }
+
+    let inventory = previous.inventory;
+    if (rawItems.length > 0) {
+      emit({ type: 'stage_started', stage: 'normalizing', total: Math.ceil(rawItems.length / SHARD_SIZE) });
+      emit({ type: 'status', agent: 'librarian', message: `Agent 2 (Librarian): Organizing ${rawItems.length} recovered items into aisles...` });
+      const librarian = await runAgentLibrarian(providers.librarian, rawItems, emit, signal);
+      // Recovered listings may repeat ones the first run already had
+      inventory = await dedupeInventory([...previous.inventory, ...librarian.items], signal);
+      logger.log(`Recovered ${librarian.items.length} item(s); inventory now has ${inventory.length}`, '✅');
+    }
+    const categorizedDeals = categorizeInventory(inventory);
+    emit({ type: 'categories_ready', inventory, categorizedDeals });
+
+    const matchResult = groceryList.trim() ? await runListMatching(providers, groceryList, inventory, emit, options) : null;
+
+    const result: AnalysisResult = {
+      ...previous,
+      ...matchResult,
+      categorizedDeals,
+      inventory,
+      warnings,
+      failedShards,
+    };
+    emit({ type: 'complete', result });
+    return result;
+
+  } catch (error) {
+    reportRunError(emit, error);
+    throw error;
+  }
+};
+
+/**
+ * Match a grocery list against an existing inventory without calling any model.
+ * Replaces Agent 3 with a rule-based list expander and Agent 4 with embedding similarity,
+ * so saved or imported inventories stay usable without an API key or quota.
+ */
+export const matchInventoryOffline = async (
+  groceryList: string,
+  inventory: MasterInventoryItem[],
+  onEvent?: PipelineEventListener,
+  signal?: AbortSignal
+): Promise<AnalysisResult> => {
+  const emit: PipelineEventListener = onEvent ?? (() => {});
+  logger.reset();
+  logger.log('GROCERY DEAL HUNTER OFFLINE MATCHING', '🚀');
+  logger.log(`User List: ${groceryList}`, '📋');
+  logger.log(`Inventory: ${inventory.length} saved items`, '📦');
+
+  try {
+    if (inventory.length === 0) {
+      throw new Error("There is no saved inventory to match against. Analyze a weekly ad first.");
+    }
+
+    const categorizedDeals = categorizeInventory(inventory);
+    emit({ type: 'categories_ready', inventory, categorizedDeals });
+
+    emit({ type: 'stage_started', stage: 'interpreting', total: 1 });
+    emit({ type: 'status', agent: 'interpreter', message: "Agent 3 (Offline): Expanding your shopping list..." });
+    const keywords = expandListOffline(groceryList);
+    logger.log(`Expanded keywords: ${keywords.join(', ')}`, '✅');
+    emit({ type: 'keywords_ready', keywords });
+
+    emit({ type: 'stage_started', stage: 'matching', total: 1 });
+    emit({ type: 'status', agent: 'matcher', message: "Agent 4 (Offline): Matching your list with on-device embeddings..." });
+    const matchResult = await matchKeywordsOffline(keywords, inventory, signal);
+    logger.log(`Matched ${matchResult.matches.length} deals offline`, '✅');
+    emit({ type: 'matches_found', ...matchResult });
+
+    const result: AnalysisResult = { ...matchResult, categorizedDeals, inventory };
+    emit({ type: 'complete', result });
     return result;
 
   } catch (error) {
-    console.error("Gemini Pipeline Error:", error);
+    reportRunError(emit, error);
     throw error;
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,146 @@
+// Deal history persistence
+// Stores every analysis run and the per-store, per-week inventory it produced in IndexedDB
+
+import { v4 as uuidv4 } from 'uuid';
+import { AnalysisResult, AnalysisRunRecord, MasterInventoryItem, StoreWeekInventory } from "@/types";
+import { openDatabase, requestToPromise, withTransaction } from "@/utils/indexedDb";
+import { getValidityWeekKey } from "@/utils/weeks";
+import { logger } from "@/utils/logger";
+
+const DB_NAME = "grocery-deal-hunter";
+const DB_VERSION = 1;
+const RUNS_STORE = "runs";
+const INVENTORY_STORE = "inventories";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const getDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+      if (!db.objectStoreNames.contains(RUNS_STORE)) {
+        const runs = db.createObjectStore(RUNS_STORE, { keyPath: "id" });
+        runs.createIndex("createdAt", "createdAt");
+        runs.createIndex("weekKeys", "weekKeys", { multiEntry: true });
+        runs.createIndex("storeNames", "storeNames", { multiEntry: true });
+      }
+      if (!db.objectStoreNames.contains(INVENTORY_STORE)) {
+        const inventories = db.createObjectStore(INVENTORY_STORE, { keyPath: ["storeName", "weekKey"] });
+        inventories.createIndex("weekKey", "weekKey");
+        inventories.createIndex("runId", "runId");
+      }
+    }).catch(error => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+};
+
+// Split an inventory into store/week buckets
+const groupByStoreWeek = (items: MasterInventoryItem[], savedAt: Date): Map<string, StoreWeekInventory> => {
+  const groups = new Map<string, StoreWeekInventory>();
+
+  items.forEach(item => {
+    const storeName = item.storeName || "Unknown Store";
+    const weekKey = getValidityWeekKey(item.validDates, savedAt);
+    const key = `${storeName}::${weekKey}`;
+
+    if (!groups.has(key)) {
+      groups.set(key, {
+        storeName,
+        weekKey,
+        validDates: item.validDates || undefined,
+        runId: "",
+        savedAt: savedAt.toISOString(),
+        items: [],
+      });
+    }
+    groups.get(key)!.items.push(item);
+  });
+
+  return groups;
+};
+
+/**
+ * Persist a completed analysis and its inventory, keyed by store and validity week.
+ * A later run for the same store and week replaces that week's inventory.
+ * Rasterized page images are left out (several MB per run); opened runs show deals without their ad page.
+ */
+export const saveAnalysisRun = async (
+  groceryList: string,
+  fileNames: string[],
+  result: AnalysisResult
+): Promise<AnalysisRunRecord> => {
+  const db = await getDb();
+  const savedAt = new Date();
+  const runId = uuidv4();
+  const storeWeeks = Array.from(groupByStoreWeek(result.inventory, savedAt).values());
+
+  const record: AnalysisRunRecord = {
+    id: runId,
+    createdAt: savedAt.toISOString(),
+    groceryList,
+    fileNames,
+    storeNames: Array.from(new Set(storeWeeks.map(sw => sw.storeName))).sort(),
+    weekKeys: Array.from(new Set(storeWeeks.map(sw => sw.weekKey))).sort(),
+    itemCount: result.inventory.length,
+    result: { ...result, pages: undefined },
+  };
+
+  await withTransaction(db, [RUNS_STORE, INVENTORY_STORE], "readwrite", (tx) => {
+    tx.objectStore(RUNS_STORE).put(record);
+    const inventories = tx.objectStore(INVENTORY_STORE);
+    storeWeeks.forEach(sw => inventories.put({ ...sw, runId }));
+  });
+
+  logger.log(`Saved run to history: ${record.storeNames.join(', ')} (${record.weekKeys.join(', ')})`, '💾');
+  return record;
+};
+
+/**
+ * List saved runs, newest first
+ */
+export const listAnalysisRuns = async (): Promise<AnalysisRunRecord[]> => {
+  const db = await getDb();
+  const runs = await withTransaction(db, RUNS_STORE, "readonly", (tx) =>
+    requestToPromise<AnalysisRunRecord[]>(tx.objectStore(RUNS_STORE).getAll())
+  );
+  return runs.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+/**
+ * List stored store/week inventories, optionally limited to a single week
+ */
+export const listStoreWeekInventories = async (weekKey?: string): Promise<StoreWeekInventory[]> => {
+  const db = await getDb();
+  return withTransaction(db, INVENTORY_STORE, "readonly", (tx) => {
+    const store = tx.objectStore(INVENTORY_STORE);
+    const request = weekKey ? store.index("weekKey").getAll(weekKey) : store.getAll();
+    return requestToPromise<StoreWeekInventory[]>(request);
+  });
+};
+
+/**
+ * Most recent saved inventory for every store, for matching without re-scanning any ads
+ */
+export const loadLatestInventory = async (): Promise<MasterInventoryItem[]> => {
+  const latest = new Map<string, StoreWeekInventory>();
+  (await listStoreWeekInventories()).forEach(sw => {
+    const current = latest.get(sw.storeName);
+    if (!current || sw.weekKey > current.weekKey) latest.set(sw.storeName, sw);
+  });
+  return Array.from(latest.values()).flatMap(sw => sw.items);
+};
+
+/**
+ * Delete a run along with any store/week inventories it still owns
+ */
+export const deleteAnalysisRun = async (id: string): Promise<void> => {
+  const db = await getDb();
+  await withTransaction(db, [RUNS_STORE, INVENTORY_STORE], "readwrite", async (tx) => {
+    tx.objectStore(RUNS_STORE).delete(id);
+    const inventories = tx.objectStore(INVENTORY_STORE);
+    const keys = await requestToPromise(inventories.index("runId").getAllKeys(id));
+    keys.forEach(key => inventories.delete(key));
+  });
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { mergeDuplicateItems } from '@/services/inventoryDedupe';
+import { MasterInventoryItem } from '@/types';
+import { parsePrice } from '@/utils/pricing';
+import { computeUnitPrice, parseMeasure } from '@/utils/units';
+
+let nextId = 0;
+const item = (overrides: Partial<MasterInventoryItem> = {}): MasterInventoryItem => {
+  const base = {
+    id: `item-${nextId++}`,
+    storeName: 'FreshMart',
+    rawName: "Lay's Potato Chips",
+    normalizedName: 'Potato Chips',
+    brand: "Lay's",
+    price: '2/$5',
+    unit: '8 oz',
+    dealDescription: '2 for $5',
+    category: 'Snacks & Sweets',
+    isLossLeader: false,
+    validDates: 'Oct 25 - Oct 31',
+    sourceFile: 'weekly-ad.pdf',
+    sourcePage: 1,
+    ...overrides,
+  };
+  const priced = {
+    ...base,
+    parsedPrice: parsePrice(base.price, base.dealDescription),
+    parsedOriginalPrice: base.originalPrice ? parsePrice(base.originalPrice) : undefined,
+    measure: parseMeasure(base.unit),
+  };
+  return { ...priced, unitPrice: computeUnitPrice(priced) };
+};
+
+describe('mergeDuplicateItems', () => {
+  it('merges exact duplicates from different pages and keeps both sources', () => {
+    const merged = mergeDuplicateItems([item(), item({ sourcePage: 5 })], null);
+    expect(merged).toHaveLength(1);
+    expect(merged[0].sources).toEqual([
+      { fileName: 'weekly-ad.pdf', pageNumber: 1, box: undefined },
+      { fileName: 'weekly-ad.pdf', pageNumber: 5, box: undefined },
+    ]);
+  });
+
+  it('uses embeddings for differently worded names', () => {
+    const items = [item(), item({ normalizedName: "Lay's Classic Potato Chips", sourceFile: 'copy.pdf' })];
+    expect(mergeDuplicateItems(items, [[1, 0], [0.95, 0.31]])).toHaveLength(1);
+    expect(mergeDuplicateItems(items, [[1, 0], [0.6, 0.8]])).toHaveLength(2);
+    expect(mergeDuplicateItems(items, null)).toHaveLength(2);
+  });
+
+  it('keeps listings that differ in store, price, size, brand or week', () => {
+    const base = item();
+    const variants = [
+      item({ storeName: 'ValueGrocer' }),
+      item({ price: '$2.99', dealDescription: '' }),
+      item({ unit: '13 oz' }),
+      item({ brand: 'Ruffles' }),
+      item({ validDates: 'Nov 1 - Nov 7' }),
+    ];
+    variants.forEach(variant => {
+      expect(mergeDuplicateItems([base, variant], null)).toHaveLength(2);
+    });
+  });
+
+  it('fills gaps in the canonical record from its duplicates', () => {
+    const merged = mergeDuplicateItems([
+      item({ brand: '', unit: '', originalPrice: undefined }),
+      item({ originalPrice: '$3.49', sourceFile: 'copy.pdf' }),
+    ], null);
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0]).toMatchObject({ brand: "Lay's", unit: '8 oz', originalPrice: '$3.49' });
+    expect(merged[0].sources?.map(s => s.fileName)).toEqual(['copy.pdf', 'weekly-ad.pdf']);
+  });
+
+  it('merges transitively and preserves first-seen order', () => {
+    const chicken = item({ normalizedName: 'Chicken Breast', brand: '', price: '$1.99/lb', unit: 'lb', dealDescription: '' });
+    const merged = mergeDuplicateItems([chicken, item(), item({ sourcePage: 2 }), item({ sourcePage: 3 })], null);
+    expect(merged.map(i => i.normalizedName)).toEqual(['Chicken Breast', 'Potato Chips']);
+    expect(merged[1].sources).toHaveLength(3);
+  });
+});
@@ -0,0 +1,146 @@
+// Inventory de-duplication
+// Merges the same product listed more than once (front and inside pages, or repeated uploads of one flyer)
+
+import { ItemSource, MasterInventoryItem } from "@/types";
+import { embedTexts } from "@/services/vectorClassifier";
+import { isAbortError } from "@/utils/abort";
+import { cosineSimilarity } from "@/utils/chunking";
+import { logger } from "@/utils/logger";
+import { getParsedPrice } from "@/utils/pricing";
+
+export const DUPLICATE_SIMILARITY = 0.9; // Minimum name similarity for a fuzzy duplicate
+
+const normalizeText = (text: string | undefined | null): string =>
+  (text || "").toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+const sameStore = (a: MasterInventoryItem, b: MasterInventoryItem) =>
+  normalizeText(a.storeName) === normalizeText(b.storeName);
+
+// Ads for different weeks list the same product as separate deals
+const sameValidity = (a: MasterInventoryItem, b: MasterInventoryItem) =>
+  !a.validDates || !b.validDates || normalizeText(a.validDates) === normalizeText(b.validDates);
+
+const compatibleBrand = (a: MasterInventoryItem, b: MasterInventoryItem) =>
+  !a.brand || !b.brand || normalizeText(a.brand) === normalizeText(b.brand);
+
+const samePrice = (a: MasterInventoryItem, b: MasterInventoryItem) => {
+  const priceA = getParsedPrice(a);
+  const priceB = getParsedPrice(b);
+  if (priceA.unitPrice !== null && priceB.unitPrice !== null) {
+    return Math.abs(priceA.unitPrice - priceB.unitPrice) < 0.005 && priceA.priceUnit === priceB.priceUnit;
+  }
+  return normalizeText(a.price) === normalizeText(b.price);
+};
+
+// A missing size on one listing does not rule out a duplicate
+const compatibleSize = (a: MasterInventoryItem, b: MasterInventoryItem) => {
+  if (!a.unit || !b.unit) return true;
+  if (a.measure && b.measure) {
+    return a.measure.dimension === b.measure.dimension &&
+      Math.abs(a.measure.amount - b.measure.amount) <= 0.02 * Math.max(a.measure.amount, b.measure.amount);
+  }
+  return normalizeText(a.unit) === normalizeText(b.unit);
+};
+
+const getSources = (item: MasterInventoryItem): ItemSource[] =>
+  item.sources ?? (item.sourceFile ? [{ fileName: item.sourceFile, pageNumber: item.sourcePage, box: item.sourceBox }] : []);
+
+// Prefer the listing with the most detail as the canonical record
+const completeness = (item: MasterInventoryItem) =>
+  [item.brand, item.unit, item.originalPrice, item.validDates, item.dealDescription, item.sourceBox].filter(Boolean).length;
+
+/**
+ * Merge a cluster of duplicate listings into one record, filling gaps from the others
+ */
+const mergeCluster = (cluster: MasterInventoryItem[]): MasterInventoryItem => {
+  const [canonical, ...others] = [...cluster].sort((a, b) => completeness(b) - completeness(a));
+  const merged: MasterInventoryItem = { ...canonical };
+
+  others.forEach(other => {
+    if (!merged.brand && other.brand) merged.brand = other.brand;
+    if (!merged.validDates && other.validDates) merged.validDates = other.validDates;
+    if (!merged.dealDescription && other.dealDescription) merged.dealDescription = other.dealDescription;
+    if (!merged.originalPrice && other.originalPrice) {
+      merged.originalPrice = other.originalPrice;
+      merged.parsedOriginalPrice = other.parsedOriginalPrice;
+    }
+    if (!merged.measure && other.measure) {
+      merged.unit = other.unit;
+      merged.measure = other.measure;
+      merged.unitPrice = other.unitPrice;
+    }
+    merged.isLossLeader = merged.isLossLeader || other.isLossLeader;
+  });
+
+  // Keep every distinct place the item appeared, canonical listing first
+  const seen = new Set<string>();
+  merged.sources = [canonical, ...others].flatMap(getSources).filter(source => {
+    const key = `${source.fileName}#${source.pageNumber}#${JSON.stringify(source.box)}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  return merged;
+};
+
+/**
+ * Cluster duplicate listings and merge each cluster.
+ * Listings are duplicates when store, validity, brand, size and price agree and the names
+ * match exactly or their embeddings are at least `threshold` similar.
+ * @param items - Normalized inventory
+ * @param embeddings - One name embedding per item (same order), or null for exact names only
+ * @returns Inventory with one record per product, in first-seen order
+ */
+export const mergeDuplicateItems = (
+  items: MasterInventoryItem[],
+  embeddings: number[][] | null,
+  threshold = DUPLICATE_SIMILARITY
+): MasterInventoryItem[] => {
+  // Union-find over listing indexes
+  const parent = items.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  const names = items.map(item => normalizeText(item.normalizedName || item.rawName));
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      const a = items[i];
+      const b = items[j];
+      if (!sameStore(a, b) || !sameValidity(a, b) || !compatibleBrand(a, b) || !compatibleSize(a, b) || !samePrice(a, b)) {
+        continue;
+      }
+
+      const similarNames = names[i] === names[j] ||
+        (embeddings !== null && cosineSimilarity(embeddings[i], embeddings[j]) >= threshold);
+      if (similarNames) parent[find(j)] = find(i);
+    }
+  }
+
+  const clusters = new Map<number, MasterInventoryItem[]>();
+  items.forEach((item, i) => {
+    const root = find(i);
+    clusters.set(root, [...(clusters.get(root) || []), item]);
+  });
+
+  return Array.from(clusters.values()).map(cluster => (cluster.length > 1 ? mergeCluster(cluster) : cluster[0]));
+};
+
+/**
+ * De-duplicate the inventory using MiniLM name embeddings from the classifier worker,
+ * falling back to exact name matching if embedding fails
+ */
+export const dedupeInventory = async (items: MasterInventoryItem[], signal?: AbortSignal): Promise<MasterInventoryItem[]> => {
+  let embeddings: number[][] | null = null;
+  try {
+    embeddings = await embedTexts(items.map(item => item.normalizedName || item.rawName), signal);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    logger.warn(`Embedding failed, de-duplicating by exact name only: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const deduped = mergeDuplicateItems(items, embeddings);
+  if (deduped.length < items.length) {
+    logger.log(`Merged ${items.length - deduped.length} duplicate listing(s) into ${deduped.length} unique items`, '🔗');
+  }
+  return deduped;
+};
@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest';
+import {
+  exportInventoryCsv,
+  exportInventoryJson,
+  importInventoryFile,
+  parseInventoryCsv,
+  parseInventoryJson
+} from '@/services/inventoryTransfer';
+import { Agent2ResponseSchema } from '@/schemas';
+import { MasterInventoryItem } from '@/types';
+import { AGENT2_OUTPUT } from '@/test/modelOutputs';
+import { parsePrice } from '@/utils/pricing';
+import { computeUnitPrice, parseMeasure } from '@/utils/units';
+
+const item = (id: string, normalizedName: string, price: string, unit: string, category: string): MasterInventoryItem => {
+  const priced = {
+    id,
+    normalizedName,
+    rawName: `FreshMart ${normalizedName}`,
+    brand: '',
+    storeName: 'FreshMart',
+    price,
+    unit,
+    dealDescription: 'Weekly special',
+    isLossLeader: false,
+    category,
+    validDates: 'Oct 25 - Oct 31',
+    parsedPrice: parsePrice(price),
+    measure: parseMeasure(unit),
+  };
+  return { ...priced, productName: normalizedName, itemName: normalizedName, isSale: false, unitPrice: computeUnitPrice(priced) };
+};
+
+const inventory = [
+  item('3f2b9c1e-0000-4000-8000-000000000001', 'Chicken Breast', '$1.99/lb', 'lb', 'Meat & Seafood'),
+  item('3f2b9c1e-0000-4000-8000-000000000002', 'Potato Chips, Party Size', '2/$5', '8 oz', 'Snacks & Sweets'),
+];
+
+describe('inventory JSON', () => {
+  it('round-trips the inventory and its categories', () => {
+    const json = exportInventoryJson(inventory);
+    expect(JSON.parse(json)).toMatchObject({ format: 'grocery-deal-hunter/inventory', version: 1 });
+
+    const imported = parseInventoryJson(json);
+    expect(imported.inventory).toEqual(inventory);
+    expect(imported.categorizedDeals.map(c => c.category)).toEqual(['Meat & Seafood', 'Snacks & Sweets']);
+  });
+
+  it('round-trips items shaped like Agent 2 output, including a null regular price', () => {
+    const categories = ['Snacks & Sweets', 'Meat & Seafood'];
+    const agent2Items = Agent2ResponseSchema.parse(JSON.parse(AGENT2_OUTPUT)).map((partial, i) => {
+      const priced = {
+        ...partial,
+        id: `3f2b9c1e-0000-4000-8000-00000000001${i}`,
+        category: categories[i],
+        parsedPrice: parsePrice(partial.price, partial.dealDescription),
+        parsedOriginalPrice: partial.originalPrice ? parsePrice(partial.originalPrice) : undefined,
+        measure: parseMeasure(partial.unit),
+      };
+      return { ...priced, productName: partial.normalizedName, itemName: partial.normalizedName, isSale: partial.isLossLeader, unitPrice: computeUnitPrice(priced) } as MasterInventoryItem;
+    });
+    expect(agent2Items[1].originalPrice).toBeNull();
+
+    const imported = parseInventoryJson(exportInventoryJson(agent2Items));
+
+    expect(imported.inventory.map(i => i.normalizedName)).toEqual(['Potato Chips', 'Chicken Breast']);
+    expect(imported.inventory[0]).toMatchObject({ originalPrice: '$3.49', parsedPrice: agent2Items[0].parsedPrice });
+    expect(imported.inventory[1].originalPrice).toBeUndefined();
+    expect(imported.inventory[1].unitPrice).toEqual(agent2Items[1].unitPrice);
+  });
+
+  it('keeps the exported categories and rebuilds them when they no longer fit', () => {
+    const file = JSON.parse(exportInventoryJson(inventory));
+    expect(file.categorizedDeals.map((c: { category: string }) => c.category)).toEqual(['Meat & Seafood', 'Snacks & Sweets']);
+
+    // A grouping saved in another order is kept as exported
+    file.categorizedDeals.reverse();
+    expect(parseInventoryJson(JSON.stringify(file)).categorizedDeals.map(c => c.category))
+      .toEqual(['Snacks & Sweets', 'Meat & Seafood']);
+
+    const rebuilt = ['Meat & Seafood', 'Snacks & Sweets'];
+    const { categorizedDeals: _, ...withoutCategories } = file;
+    expect(parseInventoryJson(JSON.stringify(withoutCategories)).categorizedDeals.map(c => c.category)).toEqual(rebuilt);
+    expect(parseInventoryJson(JSON.stringify({ ...file, categorizedDeals: [{ category: 'Produce' }] }))
+      .categorizedDeals.map(c => c.category)).toEqual(rebuilt);
+
+    // An item moved to another category is regrouped under it
+    file.inventory[0].category = 'Snacks & Sweets';
+    const regrouped = parseInventoryJson(JSON.stringify(file)).categorizedDeals;
+    expect(regrouped.map(c => [c.category, c.items.length])).toEqual([['Snacks & Sweets', 2]]);
+  });
+
+  it('rejects other files and other versions', () => {
+    expect(() => parseInventoryJson('{"entries": []}')).toThrow(/expected a "grocery-deal-hunter\/inventory" export/);
+    expect(() => parseInventoryJson('not json')).toThrow(/not valid JSON/);
+
+    const future = { ...JSON.parse(exportInventoryJson(inventory)), version: 2 };
+    expect(() => parseInventoryJson(JSON.stringify(future))).toThrow('Unsupported inventory file version 2 (expected 1)');
+  });
+
+  it('names every invalid item', () => {
+    const file = JSON.parse(exportInventoryJson(inventory));
+    file.inventory[1].price = '';
+    file.inventory[1].category = 'Toys';
+
+    expect(() => parseInventoryJson(JSON.stringify(file))).toThrow(/Item 2: price: .*\nItem 2: category: Expected one of: Produce/);
+  });
+});
+
+describe('inventory CSV', () => {
+  it('round-trips the editable fields and recomputes prices', () => {
+    const csv = exportInventoryCsv(inventory);
+    expect(csv.split('\r\n')[0]).toBe(
+      'id,storeName,rawName,normalizedName,brand,price,unit,dealDescription,category,subcategory,isLossLeader,validDates,originalPrice,sourceFile,sourcePage'
+    );
+
+    const imported = parseInventoryCsv(csv);
+    expect(imported.inventory).toEqual(inventory);
+  });
+
+  it('accepts a hand-edited spreadsheet', () => {
+    const csv = [
+      'storeName,normalizedname,Price,unit,Category,isLossLeader,Notes',
+      'FreshMart,Whole Milk,$3.49,1 gal,dairy & eggs,Yes,cheapest in town',
+      'FreshMart,Bananas,$0.59/lb,,produce,,',
+    ].join('\n');
+
+    const { inventory: items, categorizedDeals } = parseInventoryCsv(csv);
+
+    expect(items).toHaveLength(2);
+    expect(items[0]).toMatchObject({
+      normalizedName: 'Whole Milk',
+      rawName: 'Whole Milk',
+      category: 'Dairy & Eggs',
+      isLossLeader: true,
+      parsedPrice: { unitPrice: 3.49 },
+      id: expect.any(String),
+    });
+    expect(items[0].unitPrice).not.toBeNull();
+    expect(items[1]).toMatchObject({ category: 'Produce', isLossLeader: false, unit: '' });
+    expect(categorizedDeals.map(c => c.category)).toEqual(['Produce', 'Dairy & Eggs']);
+  });
+
+  it('reports missing columns and invalid rows by spreadsheet row number', () => {
+    expect(() => parseInventoryCsv('storeName,price\nFreshMart,$1')).toThrow('missing column(s) normalizedName, category');
+    expect(() => parseInventoryCsv('storeName,normalizedName,price,category,isLossLeader\nFreshMart,Milk,$3.49,Dairy & Eggs,maybe'))
+      .toThrow(/Row 2: isLossLeader:/);
+  });
+
+  it('gives duplicated ids a new one so matches stay unambiguous', () => {
+    const csv = exportInventoryCsv([inventory[0], { ...inventory[1], id: inventory[0].id }]);
+    const ids = parseInventoryCsv(csv).inventory.map(i => i.id);
+    expect(ids[0]).toBe(inventory[0].id);
+    expect(ids[1]).not.toBe(inventory[0].id);
+  });
+});
+
+describe('importInventoryFile', () => {
+  it('picks the format from the file name or content', async () => {
+    const csvFile = new File([exportInventoryCsv(inventory)], 'edited.csv', { type: 'text/csv' });
+    const jsonFile = new File([exportInventoryJson(inventory)], 'shared-inventory', { type: 'application/octet-stream' });
+
+    expect((await importInventoryFile(csvFile)).inventory).toHaveLength(2);
+    expect((await importInventoryFile(jsonFile)).inventory).toHaveLength(2);
+  });
+});
@@ -0,0 +1,274 @@
+// Inventory import/export
+// Shares the master inventory as versioned JSON or as CSV for spreadsheets, and validates files on the way back in
+
+import { v4 as uuidv4 } from 'uuid';
+import { z } from "zod";
+import { DealCategory, GroceryMatch, MasterInventoryItem } from "@/types";
+import { ExportedDealCategorySchema, InventoryFileSchema, InventoryItemImportSchema } from "@/schemas";
+import { categorizeInventory } from "@/services/geminiService";
+import { parseCsv, toCsv } from "@/utils/csv";
+import { parsePrice } from "@/utils/pricing";
+import { computeUnitPrice, parseMeasure } from "@/utils/units";
+
+export const INVENTORY_FILE_FORMAT = "grocery-deal-hunter/inventory";
+export const INVENTORY_FILE_VERSION = 1;
+
+export interface InventoryFile {
+  format: typeof INVENTORY_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  inventory: MasterInventoryItem[];
+  categorizedDeals: DealCategory[];
+}
+
+export interface ImportedInventory {
+  inventory: MasterInventoryItem[];
+  categorizedDeals: DealCategory[];
+}
+
+export type InventoryExportFormat = "json" | "csv";
+
+// Editable fields, in spreadsheet column order; derived prices and measures are recomputed on import
+export const INVENTORY_CSV_COLUMNS = [
+  "id",
+  "storeName",
+  "rawName",
+  "normalizedName",
+  "brand",
+  "price",
+  "unit",
+  "dealDescription",
+  "category",
+  "subcategory",
+  "isLossLeader",
+  "validDates",
+  "originalPrice",
+  "sourceFile",
+  "sourcePage",
+] as const;
+
+type CsvColumn = typeof INVENTORY_CSV_COLUMNS[number];
+
+const REQUIRED_CSV_COLUMNS: CsvColumn[] = ["storeName", "normalizedName", "price", "category"];
+
+// Validation errors listed in an import error before the rest are summarized
+const MAX_REPORTED_ERRORS = 5;
+
+type ImportedItem = z.infer<typeof InventoryItemImportSchema>;
+
+/**
+ * Serialize an inventory (and its categories) as a versioned JSON file
+ */
+export const exportInventoryJson = (
+  inventory: MasterInventoryItem[],
+  categorizedDeals: DealCategory[] = categorizeInventory(inventory)
+): string => {
+  const file: InventoryFile = {
+    format: INVENTORY_FILE_FORMAT,
+    version: INVENTORY_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    inventory,
+    categorizedDeals,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * Serialize an inventory as CSV, one item per row; the category column carries the grouping
+ */
+export const exportInventoryCsv = (inventory: MasterInventoryItem[]): string => {
+  const cell = (value: unknown): string => (value === undefined || value === null ? "" : String(value));
+  return toCsv([
+    [...INVENTORY_CSV_COLUMNS],
+    ...inventory.map(item => INVENTORY_CSV_COLUMNS.map(column => cell(item[column]))),
+  ]);
+};
+
+// Helper: rebuild the derived fields the pipeline attaches after Agent 2, and keep ids unique
+const toInventoryItems = (items: ImportedItem[]): MasterInventoryItem[] => {
+  const seenIds = new Set<string>();
+
+  return items.map(item => {
+    const id = item.id && !seenIds.has(item.id) ? item.id : uuidv4();
+    seenIds.add(id);
+
+    const priced = {
+      ...item,
+      id,
+      rawName: item.rawName || item.normalizedName,
+      parsedPrice: parsePrice(item.price, item.dealDescription),
+      parsedOriginalPrice: item.originalPrice ? parsePrice(item.originalPrice) : undefined,
+      measure: parseMeasure(item.unit),
+    };
+    return {
+      ...priced,
+      productName: item.normalizedName,
+      itemName: item.normalizedName,
+      isSale: item.isLossLeader,
+      unitPrice: computeUnitPrice(priced),
+    };
+  });
+};
+
+// Helper: validate every record, naming each invalid one (e.g. "Row 3: price: ...")
+const validateItems = (records: unknown[], describe: (index: number) => string): ImportedItem[] => {
+  const errors: string[] = [];
+  const items: ImportedItem[] = [];
+
+  records.forEach((record, index) => {
+    const parsed = InventoryItemImportSchema.safeParse(record);
+    if (parsed.success) {
+      items.push(parsed.data);
+      return;
+    }
+    parsed.error.issues.forEach(issue => {
+      const field = issue.path.length > 0 ? `${issue.path.join(".")}: ` : "";
+      errors.push(`${describe(index)}: ${field}${issue.message}`);
+    });
+  });
+
+  if (errors.length > 0) {
+    const more = errors.length > MAX_REPORTED_ERRORS ? `\n...and ${errors.length - MAX_REPORTED_ERRORS} more` : "";
+    throw new Error(`Invalid inventory file:\n${errors.slice(0, MAX_REPORTED_ERRORS).join("\n")}${more}`);
+  }
+  if (items.length === 0) {
+    throw new Error("The inventory file has no items.");
+  }
+  return items;
+};
+
+const toImported = (items: ImportedItem[]): ImportedInventory => {
+  const inventory = toInventoryItems(items);
+  return { inventory, categorizedDeals: categorizeInventory(inventory) };
+};
+
+// Helper: the exported category grouping over the imported items, or null when it is invalid or no longer
+// puts every item in its own category exactly once (e.g. an item was edited, or a duplicated id reassigned)
+const restoreCategories = (exported: unknown, imported: ImportedInventory): DealCategory[] | null => {
+  const parsed = z.array(ExportedDealCategorySchema).safeParse(exported);
+  if (!parsed.success) return null;
+
+  const byId = new Map(imported.categorizedDeals.flatMap(c => c.items).map(item => [item.id, item]));
+  const categoryOf = new Map(imported.inventory.map(item => [item.id, item.category]));
+  const placed = new Set<string>();
+  const categories: DealCategory[] = [];
+  for (const { category, items } of parsed.data) {
+    const restored: GroceryMatch[] = [];
+    for (const { id } of items) {
+      const item = byId.get(id);
+      if (!item || categoryOf.get(id) !== category || placed.has(id)) return null;
+      placed.add(id);
+      restored.push(item);
+    }
+    if (restored.length > 0) categories.push({ category, items: restored });
+  }
+  return placed.size === byId.size ? categories : null;
+};
+
+/**
+ * Parse and validate an exported inventory JSON file.
+ * The exported categories are kept when they still match the items; otherwise they are rebuilt.
+ * @throws Error naming the invalid items, or if the file is not a supported inventory export
+ */
+export const parseInventoryJson = (json: string): ImportedInventory => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Invalid inventory file: not valid JSON");
+  }
+
+  const file = InventoryFileSchema.safeParse(data);
+  if (!file.success) {
+    throw new Error(`Invalid inventory file: expected a "${INVENTORY_FILE_FORMAT}" export`);
+  }
+  if (file.data.version !== INVENTORY_FILE_VERSION) {
+    throw new Error(`Unsupported inventory file version ${file.data.version} (expected ${INVENTORY_FILE_VERSION})`);
+  }
+
+  const imported = toImported(validateItems(file.data.inventory, index => `Item ${index + 1}`));
+  const categorizedDeals = file.data.categorizedDeals && restoreCategories(file.data.categorizedDeals, imported);
+  return categorizedDeals ? { ...imported, categorizedDeals } : imported;
+};
+
+// Spreadsheets write booleans many ways; anything else is left for the schema to reject
+const parseCsvBoolean = (value: string): boolean | string => {
+  const normalized = value.trim().toLowerCase();
+  if (["true", "yes", "y", "1", "x"].includes(normalized)) return true;
+  if (["false", "no", "n", "0"].includes(normalized)) return false;
+  return value;
+};
+
+const parseCsvNumber = (value: string): number | string => {
+  const number = Number(value.trim());
+  return Number.isFinite(number) ? number : value;
+};
+
+/**
+ * Parse and validate an inventory CSV (a header row naming INVENTORY_CSV_COLUMNS, in any order).
+ * Unknown columns are ignored and empty cells count as missing.
+ * @throws Error naming the invalid rows or missing columns
+ */
+export const parseInventoryCsv = (csv: string): ImportedInventory => {
+  const [header, ...rows] = parseCsv(csv);
+  if (!header) {
+    throw new Error("The inventory file has no items.");
+  }
+
+  const columnIndex = new Map<CsvColumn, number>();
+  header.forEach((name, index) => {
+    const column = INVENTORY_CSV_COLUMNS.find(c => c.toLowerCase() === name.trim().toLowerCase());
+    if (column && !columnIndex.has(column)) columnIndex.set(column, index);
+  });
+  const missing = REQUIRED_CSV_COLUMNS.filter(column => !columnIndex.has(column));
+  if (missing.length > 0) {
+    throw new Error(`Invalid inventory file: missing column(s) ${missing.join(", ")}`);
+  }
+
+  const records = rows.map(row => {
+    const record: Record<string, unknown> = {};
+    columnIndex.forEach((index, column) => {
+      const value = row[index] ?? "";
+      if (value.trim() === "") return;
+      record[column] = column === "isLossLeader" ? parseCsvBoolean(value)
+        : column === "sourcePage" ? parseCsvNumber(value)
+        : value;
+    });
+    return record;
+  });
+
+  // Row numbers match the spreadsheet: the header is row 1
+  return toImported(validateItems(records, index => `Row ${index + 2}`));
+};
+
+/**
+ * Import an inventory from a .json or .csv file (other names are sniffed from the content)
+ */
+export const importInventoryFile = async (file: File): Promise<ImportedInventory> => {
+  const text = await file.text();
+  const name = file.name.toLowerCase();
+  const isJson = name.endsWith(".json") || (!name.endsWith(".csv") && text.trimStart().startsWith("{"));
+  return isJson ? parseInventoryJson(text) : parseInventoryCsv(text);
+};
+
+/**
+ * Download the inventory as a JSON or CSV file
+ */
+export const downloadInventory = (
+  inventory: MasterInventoryItem[],
+  categorizedDeals: DealCategory[],
+  format: InventoryExportFormat
+) => {
+  const content = format === "json" ? exportInventoryJson(inventory, categorizedDeals) : exportInventoryCsv(inventory);
+  const blob = new Blob([content], { type: format === "json" ? "application/json" : "text/csv" });
+  const url = URL.createObjectURL(blob);
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-").slice(0, -5);
+
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `inventory-${timestamp}.${format}`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
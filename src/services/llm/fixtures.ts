@@ -0,0 +1,190 @@
+// Record/replay of model calls
+// A recorder captures every request/response pair of a run into a fixture; replay serves them back offline
+
+import { AgentName, AgentProviders, GenerateRequest, GenerateResponse, LLMProvider } from "@/services/llm/types";
+import { sha256Hex } from "@/utils/hash";
+import { throwIfAborted } from "@/utils/abort";
+
+export const FIXTURE_VERSION = 1;
+
+export interface FixtureEntry {
+  key: string;
+  agent: AgentName;
+  provider: string;
+  model: string;
+  request: {
+    prompt: string;
+    json?: boolean;
+    files: { mimeType: string; sha256: string; size: number }[];
+  };
+  response: GenerateResponse;
+}
+
+export interface LLMFixture {
+  version: number;
+  createdAt: string;
+  entries: FixtureEntry[];
+}
+
+const AGENTS: AgentName[] = ["extractor", "librarian", "interpreter", "matcher"];
+
+// Inventory ids are random UUIDs, so they are masked when keying and remapped on replay
+const UUID_PATTERN = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi;
+
+const maskIds = (text: string): string => text.replace(UUID_PATTERN, "<id>");
+
+const hashFiles = (request: GenerateRequest) =>
+  Promise.all((request.files || []).map(async file => ({
+    mimeType: file.mimeType,
+    sha256: await sha256Hex(file.data),
+    size: file.data.length,
+  })));
+
+/**
+ * Stable key for a request: agent + prompt (ids masked) + file contents + JSON flag
+ */
+export const getRequestKey = async (agent: AgentName, request: GenerateRequest): Promise<string> => {
+  const files = await hashFiles(request);
+  return sha256Hex(JSON.stringify({
+    agent,
+    prompt: maskIds(request.prompt),
+    files: files.map(f => f.sha256),
+    json: !!request.json,
+  }));
+};
+
+/**
+ * Rewrite ids in a recorded response to the ids of the current run, pairing them by
+ * order of first appearance in the recorded and current prompts
+ */
+const remapIds = (recordedPrompt: string, currentPrompt: string, text: string): string => {
+  const unique = (prompt: string) => Array.from(new Set(prompt.match(UUID_PATTERN) || []));
+  const recordedIds = unique(recordedPrompt);
+  const currentIds = unique(currentPrompt);
+  if (recordedIds.length === 0) return text;
+
+  const mapping = new Map(recordedIds.map((id, i) => [id.toLowerCase(), currentIds[i] || id]));
+  return text.replace(UUID_PATTERN, id => mapping.get(id.toLowerCase()) || id);
+};
+
+export class FixtureRecorder {
+  private entries: FixtureEntry[] = [];
+
+  /**
+   * Wrap a provider so every call made by `agent` is captured
+   */
+  wrap(agent: AgentName, provider: LLMProvider): LLMProvider {
+    return {
+      ...provider,
+      generate: async (request: GenerateRequest) => {
+        const response = await provider.generate(request);
+        this.entries.push({
+          key: await getRequestKey(agent, request),
+          agent,
+          provider: provider.name,
+          model: provider.model,
+          request: {
+            prompt: request.prompt,
+            json: request.json,
+            files: await hashFiles(request),
+          },
+          response,
+        });
+        return response;
+      },
+    };
+  }
+
+  wrapAll(providers: AgentProviders): AgentProviders {
+    return Object.fromEntries(
+      AGENTS.map(agent => [agent, this.wrap(agent, providers[agent])])
+    ) as AgentProviders;
+  }
+
+  toFixture(): LLMFixture {
+    return {
+      version: FIXTURE_VERSION,
+      createdAt: new Date().toISOString(),
+      entries: [...this.entries],
+    };
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Download the recorded fixture as a JSON file
+   */
+  download(filename?: string) {
+    const blob = new Blob([JSON.stringify(this.toFixture(), null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const timestamp = new Date().toISOString().replace(/[:.]/g, "-").slice(0, -5);
+
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = filename || `llm-fixture-${timestamp}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Create providers that answer from a recorded fixture.
+ * Identical requests are served in recorded order; an unrecorded request throws.
+ */
+export const createReplayProviders = (fixture: LLMFixture): AgentProviders => {
+  if (fixture.version !== FIXTURE_VERSION) {
+    throw new Error(`Unsupported fixture version ${fixture.version} (expected ${FIXTURE_VERSION})`);
+  }
+
+  const queues = new Map<string, FixtureEntry[]>();
+  fixture.entries.forEach(entry => {
+    const queue = queues.get(entry.key) || [];
+    queue.push(entry);
+    queues.set(entry.key, queue);
+  });
+
+  const createProvider = (agent: AgentName): LLMProvider => ({
+    name: "replay",
+    model: fixture.entries.find(e => e.agent === agent)?.model || "replay",
+    supportsVision: true,
+    supportsJsonMode: false,
+    supportsResponseSchema: false,
+    async generate(request: GenerateRequest): Promise<GenerateResponse> {
+      throwIfAborted(request.signal);
+      const key = await getRequestKey(agent, request);
+      const entry = queues.get(key)?.shift();
+      if (!entry) {
+        throw new Error(`No recorded ${agent} response matches this request (key ${key.substring(0, 12)})`);
+      }
+      return { text: remapIds(entry.request.prompt, request.prompt, entry.response.text) };
+    },
+  });
+
+  return Object.fromEntries(AGENTS.map(agent => [agent, createProvider(agent)])) as AgentProviders;
+};
+
+/**
+ * Parse and minimally validate fixture JSON
+ */
+export const parseFixture = (json: string): LLMFixture => {
+  const fixture = JSON.parse(json);
+  if (!fixture || !Array.isArray(fixture.entries)) {
+    throw new Error("Invalid fixture file: missing entries");
+  }
+  return fixture as LLMFixture;
+};
+
+/**
+ * Fetch a fixture from a URL (e.g. one placed under public/fixtures)
+ */
+export const loadFixture = async (url: string): Promise<LLMFixture> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load fixture from ${url} (${response.status})`);
+  }
+  return parseFixture(await response.text());
+};
@@ -0,0 +1,66 @@
+// Gemini / Gemma adapter backed by the @google/genai SDK
+
+import { GenerateContentConfig, GoogleGenAI } from "@google/genai";
+import { GenerateRequest, GenerateResponse, LLMProvider } from "@/services/llm/types";
+import { zodToGeminiSchema } from "@/services/llm/geminiSchema";
+import { logger } from "@/utils/logger";
+
+export const DEFAULT_GEMINI_MODEL = "gemma-3-27b-it";
+
+export interface GeminiProviderOptions {
+  apiKey: string;
+  model?: string;
+  jsonMode?: boolean; // Gemma models on the Gemini API reject responseMimeType
+  responseSchema?: boolean; // Constrained decoding; defaults to the JSON mode setting
+}
+
+/**
+ * JSON-mode config for a request, with a responseSchema when one can be derived
+ */
+const buildJsonConfig = (request: GenerateRequest, useResponseSchema: boolean): GenerateContentConfig => {
+  const config: GenerateContentConfig = { responseMimeType: "application/json" };
+  if (!useResponseSchema || !request.responseSchema) return config;
+
+  try {
+    config.responseSchema = zodToGeminiSchema(request.responseSchema);
+  } catch (error) {
+    logger.warn(`Falling back to prompt-only JSON: ${error instanceof Error ? error.message : error}`);
+  }
+  return config;
+};
+
+export const createGeminiProvider = ({ apiKey, model = DEFAULT_GEMINI_MODEL, jsonMode, responseSchema }: GeminiProviderOptions): LLMProvider => {
+  if (!apiKey) {
+    throw new Error("API Key is missing");
+  }
+
+  const ai = new GoogleGenAI({ apiKey });
+  const supportsJsonMode = jsonMode ?? !model.startsWith("gemma");
+  const supportsResponseSchema = supportsJsonMode && (responseSchema ?? true);
+
+  return {
+    name: "gemini",
+    model,
+    supportsVision: true,
+    supportsJsonMode,
+    supportsResponseSchema,
+    async generate(request: GenerateRequest): Promise<GenerateResponse> {
+      const fileParts = (request.files || []).map(file => ({
+        inlineData: { data: file.data, mimeType: file.mimeType },
+      }));
+
+      const config: GenerateContentConfig = request.json && supportsJsonMode ? buildJsonConfig(request, supportsResponseSchema) : {};
+      if (request.signal) {
+        config.abortSignal = request.signal;
+      }
+
+      const response = await ai.models.generateContent({
+        model,
+        contents: [{ role: "user", parts: [{ text: request.prompt }, ...fileParts] }],
+        config,
+      });
+
+      return { text: response.text || "" };
+    },
+  };
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { Type } from '@google/genai';
+import { z } from 'zod';
+import { zodToGeminiSchema } from '@/services/llm/geminiSchema';
+import { Agent1ResponseSchema, Agent2ResponseSchema, Agent3LenientResponseSchema, Agent4ResponseSchema } from '@/schemas';
+
+describe('zodToGeminiSchema', () => {
+    it('converts the Agent 1 array of defaulted fields', () => {
+        const schema = zodToGeminiSchema(Agent1ResponseSchema);
+        expect(schema.type).toBe(Type.ARRAY);
+        expect(schema.items?.type).toBe(Type.OBJECT);
+        expect(schema.items?.properties?.rawName).toEqual({ type: Type.STRING });
+        expect(schema.items?.required).toEqual([]);
+    });
+
+    it('marks required, optional and nullable Agent 2 fields', () => {
+        const item = zodToGeminiSchema(Agent2ResponseSchema).items!;
+        expect(item.required).toEqual(['storeName', 'normalizedName', 'price']);
+        expect(item.properties?.isLossLeader).toEqual({ type: Type.BOOLEAN });
+        expect(item.properties?.originalPrice).toEqual({ type: Type.STRING, nullable: true });
+        expect(item.propertyOrdering?.[0]).toBe('storeName');
+    });
+
+    it('uses the first option of the lenient Agent 3 union', () => {
+        const schema = zodToGeminiSchema(Agent3LenientResponseSchema);
+        expect(schema.type).toBe(Type.OBJECT);
+        expect(schema.properties?.expandedKeywords).toEqual({ type: Type.ARRAY, items: { type: Type.STRING } });
+    });
+
+    it('converts nested Agent 4 matches', () => {
+        const schema = zodToGeminiSchema(Agent4ResponseSchema);
+        expect(schema.required).toEqual(['matches']);
+        expect(schema.properties?.matches.items?.properties?.confidence).toEqual({ type: Type.NUMBER });
+    });
+
+    it('converts enums and integers', () => {
+        expect(zodToGeminiSchema(z.enum(['a', 'b']))).toMatchObject({ type: Type.STRING, enum: ['a', 'b'] });
+        expect(zodToGeminiSchema(z.number().int())).toEqual({ type: Type.INTEGER });
+    });
+
+    it('throws on types with no Gemini equivalent', () => {
+        expect(() => zodToGeminiSchema(z.date())).toThrow(/Unsupported schema type/);
+    });
+});
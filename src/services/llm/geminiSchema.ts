@@ -0,0 +1,47 @@
+// Zod -> Gemini responseSchema conversion
+// Lets agents keep a single Zod definition for both constrained decoding and validation
+
+import { Schema, Type } from "@google/genai";
+import { z } from "zod";
+
+/**
+ * Convert a Zod schema to a Gemini `responseSchema`.
+ * Defaults and optionals become non-required properties, transforms use their input type and
+ * unions use their first option (the shape the prompt asks for).
+ * @throws Error when the schema uses a type with no Gemini equivalent
+ */
+export const zodToGeminiSchema = (schema: z.ZodType): Schema => {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodDefault) {
+    return zodToGeminiSchema(schema.unwrap() as z.ZodType);
+  }
+  if (schema instanceof z.ZodNullable) {
+    return { ...zodToGeminiSchema(schema.unwrap() as z.ZodType), nullable: true };
+  }
+  if (schema instanceof z.ZodPipe) {
+    return zodToGeminiSchema(schema.in as z.ZodType);
+  }
+  if (schema instanceof z.ZodUnion) {
+    return zodToGeminiSchema(schema.options[0] as z.ZodType);
+  }
+
+  if (schema instanceof z.ZodString) return { type: Type.STRING };
+  if (schema instanceof z.ZodNumber) return { type: schema.format?.includes("int") ? Type.INTEGER : Type.NUMBER };
+  if (schema instanceof z.ZodBoolean) return { type: Type.BOOLEAN };
+  if (schema instanceof z.ZodEnum) return { type: Type.STRING, format: "enum", enum: schema.options.map(String) };
+  if (schema instanceof z.ZodArray) {
+    return { type: Type.ARRAY, items: zodToGeminiSchema(schema.element as z.ZodType) };
+  }
+
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodType>;
+    const keys = Object.keys(shape);
+    return {
+      type: Type.OBJECT,
+      properties: Object.fromEntries(keys.map(key => [key, zodToGeminiSchema(shape[key])])),
+      required: keys.filter(key => !(shape[key] instanceof z.ZodOptional || shape[key] instanceof z.ZodDefault)),
+      propertyOrdering: keys,
+    };
+  }
+
+  throw new Error(`Unsupported schema type for responseSchema: ${schema.def.type}`);
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it, vi } from 'vitest';
+import { generateStructured } from '@/services/llm/generateStructured';
+import { createMockProvider } from '@/services/llm/mockProvider';
+import { createMemoryResponseCache, withResponseCache } from '@/services/llm/responseCache';
+import { Agent1ResponseSchema, Agent3LenientResponseSchema, Agent3ResponseSchema } from '@/schemas';
+import { AGENT1_TRAILING_COMMAS, AGENT3_BARE_ARRAY, AGENT3_MISSING_KEY, AGENT3_OBJECT } from '@/test/modelOutputs';
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+vi.spyOn(console, 'warn').mockImplementation(() => {});
+vi.spyOn(console, 'error').mockImplementation(() => {});
+
+describe('generateStructured', () => {
+    it('returns repaired output without re-prompting', async () => {
+        const provider = createMockProvider([{ match: 'Extract', respond: AGENT1_TRAILING_COMMAS }]);
+
+        const items = await generateStructured(provider, { prompt: 'Extract items', schema: Agent1ResponseSchema, agentName: 'Agent 1' });
+
+        expect(items).toHaveLength(2);
+        expect(provider.calls).toHaveLength(1);
+    });
+
+    it('re-prompts with the validation error and accepts the corrected response', async () => {
+        const provider = createMockProvider([
+            { match: 'could not be used', respond: AGENT3_OBJECT },
+            { match: 'Expand', respond: AGENT3_MISSING_KEY, times: 1 },
+        ]);
+
+        const parsed = await generateStructured(provider, { prompt: 'Expand the list', schema: Agent3ResponseSchema, agentName: 'Agent 3' });
+
+        expect(parsed.expandedKeywords).toEqual(['Chicken Breast', 'Potato Chips']);
+        expect(provider.calls).toHaveLength(2);
+        expect(provider.calls[1].prompt).toContain('Expand the list');
+        expect(provider.calls[1].prompt).toMatch(/expandedKeywords/);
+    });
+
+    it('gives up after the configured number of retries', async () => {
+        const provider = createMockProvider([{ match: 'Expand', respond: AGENT3_MISSING_KEY }]);
+
+        await expect(generateStructured(provider, {
+            prompt: 'Expand the list',
+            schema: Agent3ResponseSchema,
+            agentName: 'Agent 3',
+            maxRetries: 1,
+        })).rejects.toThrow(/Failed to parse Agent 3 response after 2 attempt/);
+        expect(provider.calls).toHaveLength(2);
+    });
+
+    it('passes the schema only to providers that support constrained output', async () => {
+        const plain = createMockProvider([{ match: 'Expand', respond: AGENT3_OBJECT }]);
+        const constrained = { ...plain, supportsResponseSchema: true };
+
+        await generateStructured(plain, { prompt: 'Expand', json: true, schema: Agent3ResponseSchema, agentName: 'Agent 3' });
+        await generateStructured(constrained, { prompt: 'Expand', json: true, schema: Agent3ResponseSchema, agentName: 'Agent 3' });
+
+        expect(plain.calls[0].responseSchema).toBeUndefined();
+        expect(plain.calls[1].responseSchema).toBe(Agent3ResponseSchema);
+    });
+
+    it('accepts a bare keyword array from Agent 3', async () => {
+        const provider = createMockProvider([{ match: 'Expand', respond: AGENT3_BARE_ARRAY }]);
+
+        const parsed = await generateStructured(provider, { prompt: 'Expand the list', schema: Agent3LenientResponseSchema, agentName: 'Agent 3' });
+
+        expect(parsed.expandedKeywords).toEqual(['Chicken Breast', 'Potato Chips']);
+    });
+
+    it('answers a repeated request from the response cache', async () => {
+        const provider = createMockProvider([{ match: 'Expand', respond: AGENT3_OBJECT }]);
+        const cached = withResponseCache(provider, createMemoryResponseCache(60000));
+        const request = { prompt: 'Expand the list', schema: Agent3ResponseSchema, agentName: 'Agent 3' };
+
+        const first = await generateStructured(cached, request);
+        const second = await generateStructured(cached, request);
+        await generateStructured(cached, { ...request, prompt: 'Expand the other list' });
+
+        expect(second).toEqual(first);
+        expect(provider.calls.map(call => call.prompt)).toEqual(['Expand the list', 'Expand the other list']);
+    });
+
+    it('does not cache a response that failed validation', async () => {
+        const provider = createMockProvider([{ match: 'Expand', respond: AGENT3_MISSING_KEY }]);
+        const cache = createMemoryResponseCache(60000);
+        const request = { prompt: 'Expand the list', schema: Agent3ResponseSchema, agentName: 'Agent 3', maxRetries: 0 };
+
+        await expect(generateStructured(withResponseCache(provider, cache), request)).rejects.toThrow();
+        await expect(generateStructured(withResponseCache(provider, cache), request)).rejects.toThrow();
+
+        expect(provider.calls).toHaveLength(2);
+    });
+});
@@ -0,0 +1,88 @@
+// Schema-guided generation
+// Parses and validates a model response, re-prompting with the validation error when it fails
+
+import { z } from "zod";
+import { GenerateRequest, LLMProvider } from "@/services/llm/types";
+import { getResponseCacheKey } from "@/services/llm/responseCache";
+import { throwIfAborted } from "@/utils/abort";
+import { cleanJson, safeParseWithZod } from "@/utils/json";
+import { logger } from "@/utils/logger";
+
+export const MAX_SCHEMA_RETRIES = 2;
+
+export interface StructuredRequest<T> extends GenerateRequest {
+  schema: z.ZodType<T>;
+  agentName: string;
+  maxRetries?: number;
+}
+
+const buildRetryPrompt = (originalPrompt: string, previousOutput: string, error: string): string => `
+${originalPrompt}
+
+    Your previous response could not be used:
+    ${error}
+
+    Previous response (truncated):
+    ${cleanJson(previousOutput).substring(0, 1500)}
+
+    Return the corrected response as ONLY valid JSON in the required format, with no commentary.
+  `;
+
+/**
+ * Generate a response and validate it against `schema`.
+ * JSON requests also pass the schema to providers that support constrained output.
+ * Malformed JSON is repaired and invalid array elements are dropped before re-prompting;
+ * the model is only asked again (up to `maxRetries` times) when nothing usable remains.
+ * Providers with a response cache answer repeated requests from it; only validated responses are cached.
+ */
+export const generateStructured = async <T>(
+  provider: LLMProvider,
+  { schema, agentName, maxRetries = MAX_SCHEMA_RETRIES, ...request }: StructuredRequest<T>
+): Promise<T> => {
+  let prompt = request.prompt;
+  let lastError = "";
+
+  const cache = provider.responseCache;
+  const cacheKey = cache ? await getResponseCacheKey(agentName, provider, request) : "";
+  if (cache) {
+    // Entries written before a schema change are ignored
+    const cached = schema.safeParse(await cache.get(cacheKey));
+    if (cached.success) {
+      logger.log(`${agentName}: reused cached response`, "💾");
+      return cached.data;
+    }
+  }
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    throwIfAborted(request.signal);
+    if (attempt > 0) {
+      logger.warn(`${agentName}: retrying with validation feedback (attempt ${attempt + 1} of ${maxRetries + 1})`);
+    }
+
+    const response = await provider.generate({
+      ...request,
+      prompt,
+      responseSchema: request.json && provider.supportsResponseSchema ? schema : undefined,
+    });
+    const rawText = response.text || "";
+    console.log(`${agentName} Raw Response:`, rawText.substring(0, 200));
+
+    const outcome = safeParseWithZod(rawText, schema);
+    if (outcome.success) {
+      if (outcome.repaired) {
+        logger.warn(`${agentName}: repaired malformed JSON in response`);
+      }
+      if (outcome.droppedItems > 0) {
+        logger.warn(`${agentName}: dropped ${outcome.droppedItems} invalid item(s), kept the rest`);
+      }
+      await cache?.set(cacheKey, agentName, outcome.data);
+      return outcome.data;
+    }
+
+    lastError = outcome.error;
+    logger.error(`${agentName} response failed validation`, lastError);
+    prompt = buildRetryPrompt(request.prompt, rawText, lastError);
+  }
+
+  throw new Error(`Failed to parse ${agentName} response after ${maxRetries + 1} attempt(s): ${lastError}`);
+};
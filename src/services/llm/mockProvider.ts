@@ -0,0 +1,72 @@
+// Scripted mock provider for offline runs and tests
+// Responses are chosen deterministically from an ordered list of rules
+
+import { GenerateRequest, GenerateResponse, LLMProvider } from "@/services/llm/types";
+import { throwIfAborted } from "@/utils/abort";
+
+export interface MockRule {
+  // Substring or pattern matched against the prompt, or a custom predicate
+  match: string | RegExp | ((request: GenerateRequest) => boolean);
+  // Response text, or a function deriving it from the request
+  respond: string | ((request: GenerateRequest) => string);
+  // Only use this rule this many times (defaults to unlimited)
+  times?: number;
+}
+
+export interface MockProvider extends LLMProvider {
+  calls: GenerateRequest[];
+}
+
+const matches = (rule: MockRule, request: GenerateRequest): boolean => {
+  if (typeof rule.match === "string") return request.prompt.includes(rule.match);
+  if (rule.match instanceof RegExp) return rule.match.test(request.prompt);
+  return rule.match(request);
+};
+
+/**
+ * Create a provider that answers from scripted rules; the first matching rule wins.
+ * Throws when no rule matches so unexpected prompts fail loudly.
+ */
+export const createMockProvider = (rules: MockRule[], model = "mock-model"): MockProvider => {
+  const remaining = rules.map(rule => rule.times ?? Infinity);
+  const calls: GenerateRequest[] = [];
+
+  return {
+    name: "mock",
+    model,
+    supportsVision: true,
+    supportsJsonMode: false,
+    supportsResponseSchema: false,
+    calls,
+    async generate(request: GenerateRequest): Promise<GenerateResponse> {
+      throwIfAborted(request.signal);
+      calls.push(request);
+
+      const index = rules.findIndex((rule, i) => remaining[i] > 0 && matches(rule, request));
+      if (index === -1) {
+        throw new Error(`Mock provider has no response for prompt: ${request.prompt.trim().substring(0, 80)}...`);
+      }
+
+      remaining[index]--;
+      const rule = rules[index];
+      return { text: typeof rule.respond === "function" ? rule.respond(request) : rule.respond };
+    },
+  };
+};
+
+/**
+ * Convenience script keyed by agent role, matching the "Role: Agent N" line of each prompt
+ */
+export const createAgentMockProvider = (responses: {
+  extractor?: string | ((request: GenerateRequest) => string);
+  librarian?: string | ((request: GenerateRequest) => string);
+  interpreter?: string | ((request: GenerateRequest) => string);
+  matcher?: string | ((request: GenerateRequest) => string);
+}): MockProvider => {
+  const rules: MockRule[] = [];
+  if (responses.extractor !== undefined) rules.push({ match: "Role: Agent 1", respond: responses.extractor });
+  if (responses.librarian !== undefined) rules.push({ match: "Role: Agent 2", respond: responses.librarian });
+  if (responses.interpreter !== undefined) rules.push({ match: "Role: Agent 3", respond: responses.interpreter });
+  if (responses.matcher !== undefined) rules.push({ match: "Role: Agent 4", respond: responses.matcher });
+  return createMockProvider(rules);
+};
@@ -0,0 +1,73 @@
+// Adapter for OpenAI-compatible chat completion endpoints (Ollama, llama.cpp server, vLLM, LM Studio)
+
+import { GenerateRequest, GenerateResponse, LLMProvider } from "@/services/llm/types";
+
+export interface OpenAICompatibleProviderOptions {
+  baseUrl: string; // e.g. "http://localhost:11434/v1"
+  model: string;
+  apiKey?: string;
+  vision?: boolean;
+  jsonMode?: boolean;
+}
+
+export const createOpenAICompatibleProvider = ({
+  baseUrl,
+  model,
+  apiKey,
+  vision = false,
+  jsonMode = true,
+}: OpenAICompatibleProviderOptions): LLMProvider => {
+  if (!baseUrl) {
+    throw new Error("Local model base URL is missing");
+  }
+  if (!model) {
+    throw new Error("Local model name is missing");
+  }
+
+  const endpoint = `${baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  return {
+    name: "openai-compatible",
+    model,
+    supportsVision: vision,
+    supportsJsonMode: jsonMode,
+    supportsResponseSchema: false,
+    async generate(request: GenerateRequest): Promise<GenerateResponse> {
+      if (request.files?.length && !vision) {
+        throw new Error(`Model "${model}" is not configured for vision input`);
+      }
+
+      const content = request.files?.length
+        ? [
+          { type: "text", text: request.prompt },
+          ...request.files.map(file => ({
+            type: "image_url",
+            image_url: { url: `data:${file.mimeType};base64,${file.data}` },
+          })),
+        ]
+        : request.prompt;
+
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          messages: [{ role: "user", content }],
+          ...(request.json && jsonMode ? { response_format: { type: "json_object" } } : {}),
+        }),
+        signal: request.signal,
+      });
+
+      if (!response.ok) {
+        const body = await response.text().catch(() => "");
+        throw new Error(`Local model request failed (${response.status}): ${body.substring(0, 200)}`);
+      }
+
+      const data = await response.json();
+      return { text: data?.choices?.[0]?.message?.content || "" };
+    },
+  };
+};
@@ -0,0 +1,100 @@
+// Per-agent provider selection
+// Reads VITE_* settings so each agent can run on Gemini or on a local OpenAI-compatible server
+
+import { AgentName, AgentProviders, LLMProvider, ProviderKind } from "@/services/llm/types";
+import { createGeminiProvider } from "@/services/llm/geminiProvider";
+import { createOpenAICompatibleProvider } from "@/services/llm/openAICompatibleProvider";
+import { getSharedScheduler, isRateLimitError, RequestScheduler, scheduleProvider } from "@/services/llm/scheduler";
+
+const AGENT_ENV_KEYS: Record<AgentName, keyof ImportMetaEnv> = {
+  extractor: "VITE_EXTRACTOR_PROVIDER",
+  librarian: "VITE_LIBRARIAN_PROVIDER",
+  interpreter: "VITE_INTERPRETER_PROVIDER",
+  matcher: "VITE_MATCHER_PROVIDER",
+};
+
+const parseProviderKind = (value: string | undefined, fallback: ProviderKind): ProviderKind => {
+  if (!value) return fallback;
+  if (value === "gemini" || value === "openai-compatible") return value;
+  throw new Error(`Unknown LLM provider "${value}" (expected "gemini" or "openai-compatible")`);
+};
+
+const createProvider = (kind: ProviderKind): LLMProvider => {
+  const env = import.meta.env;
+
+  if (kind === "openai-compatible") {
+    return createOpenAICompatibleProvider({
+      baseUrl: env.VITE_LOCAL_LLM_BASE_URL || "http://localhost:11434/v1",
+      model: env.VITE_LOCAL_LLM_MODEL || "",
+      apiKey: env.VITE_LOCAL_LLM_API_KEY,
+      vision: env.VITE_LOCAL_LLM_VISION === "true",
+    });
+  }
+
+  return createGeminiProvider({
+    apiKey: env.VITE_API_KEY,
+    model: env.VITE_GEMINI_MODEL || undefined,
+    responseSchema: env.VITE_GEMINI_RESPONSE_SCHEMA !== "false",
+  });
+};
+
+/**
+ * Whether any agent is configured for Gemini without an API key, so only offline matching can run.
+ * An unknown provider setting returns false: resolving the providers for a run reports it in the UI.
+ */
+export const isApiKeyMissing = (): boolean => {
+  const env = import.meta.env;
+  try {
+    const defaultKind = parseProviderKind(env.VITE_LLM_PROVIDER, "gemini");
+    const usesGemini = (Object.keys(AGENT_ENV_KEYS) as AgentName[])
+      .some(agent => parseProviderKind(env[AGENT_ENV_KEYS[agent]], defaultKind) === "gemini");
+    return usesGemini && !env.VITE_API_KEY;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Whether a model call failed because the API quota or rate limit was exhausted
+ */
+export const isQuotaError = (error: unknown): boolean => isRateLimitError(error);
+
+/**
+ * Resolve the provider used by each agent.
+ * Explicit overrides win; otherwise the agent's env setting, then VITE_LLM_PROVIDER, then Gemini.
+ * Providers are only constructed for agents that need them, so a missing API key
+ * only fails when an agent is actually configured to use Gemini.
+ * Configured providers send every request through `scheduler`; overrides are used as given.
+ */
+export const resolveAgentProviders = (
+  overrides: Partial<AgentProviders> = {},
+  scheduler: RequestScheduler = getSharedScheduler()
+): AgentProviders => {
+  const env = import.meta.env;
+  const defaultKind = parseProviderKind(env.VITE_LLM_PROVIDER, "gemini");
+  const instances = new Map<ProviderKind, LLMProvider>();
+
+  const resolve = (agent: AgentName): LLMProvider => {
+    const override = overrides[agent];
+    if (override) return override;
+
+    const kind = parseProviderKind(env[AGENT_ENV_KEYS[agent]], defaultKind);
+    if (!instances.has(kind)) {
+      instances.set(kind, scheduleProvider(createProvider(kind), scheduler));
+    }
+    return instances.get(kind)!;
+  };
+
+  const providers: AgentProviders = {
+    extractor: resolve("extractor"),
+    librarian: resolve("librarian"),
+    interpreter: resolve("interpreter"),
+    matcher: resolve("matcher"),
+  };
+
+  if (!providers.extractor.supportsVision) {
+    throw new Error(`Agent 1 needs a vision-capable model, but "${providers.extractor.model}" is not configured for images`);
+  }
+
+  return providers;
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { createMemoryResponseCache, getResponseCacheKey } from '@/services/llm/responseCache';
+import { createMockProvider } from '@/services/llm/mockProvider';
+
+describe('getResponseCacheKey', () => {
+    const provider = createMockProvider([]);
+    const request = { prompt: 'Extract items', files: [{ data: 'AAAA', mimeType: 'image/png' }], json: true };
+
+    it('is stable for the same request', async () => {
+        expect(await getResponseCacheKey('Agent 1', provider, request))
+            .toBe(await getResponseCacheKey('Agent 1', provider, { ...request, signal: new AbortController().signal }));
+    });
+
+    it('changes with the file bytes, prompt, agent and model', async () => {
+        const key = await getResponseCacheKey('Agent 1', provider, request);
+        const variants = await Promise.all([
+            getResponseCacheKey('Agent 1', provider, { ...request, files: [{ data: 'AAAB', mimeType: 'image/png' }] }),
+            getResponseCacheKey('Agent 1', provider, { ...request, prompt: 'Extract all items' }),
+            getResponseCacheKey('Agent 2', provider, request),
+            getResponseCacheKey('Agent 1', { ...provider, model: 'other-model' }, request),
+        ]);
+        expect(new Set([key, ...variants]).size).toBe(5);
+    });
+});
+
+describe('createMemoryResponseCache', () => {
+    it('serves entries until they expire', async () => {
+        let now = 1000;
+        const cache = createMemoryResponseCache(500, () => now);
+        await cache.set('key', 'Agent 1', [{ rawName: 'Milk' }]);
+
+        expect(await cache.get('key')).toEqual([{ rawName: 'Milk' }]);
+        now = 1500;
+        expect(await cache.get('key')).toBeUndefined();
+    });
+
+    it('forgets everything when cleared', async () => {
+        const cache = createMemoryResponseCache(60000);
+        await cache.set('a', 'Agent 1', 1);
+        await cache.set('b', 'Agent 3', 2);
+        await cache.clear();
+
+        expect(await cache.get('a')).toBeUndefined();
+        expect(await cache.get('b')).toBeUndefined();
+    });
+
+    it('stores nothing with a zero TTL', async () => {
+        const cache = createMemoryResponseCache(0);
+        await cache.set('key', 'Agent 1', 1);
+        expect(await cache.get('key')).toBeUndefined();
+    });
+});
@@ -0,0 +1,175 @@
+// Agent response cache
+// Validated Agent 1-3 responses keyed by a hash of agent, model, prompt and file bytes, kept in IndexedDB
+// for a limited time, so re-running the same flyers with an edited list only calls the matcher again
+
+import { GenerateRequest, LLMProvider, ResponseCache } from "@/services/llm/types";
+import { sha256Hex } from "@/utils/hash";
+import { openDatabase, requestToPromise, withTransaction } from "@/utils/indexedDb";
+import { logger } from "@/utils/logger";
+
+const DB_NAME = "grocery-deal-hunter-cache";
+const DB_VERSION = 1;
+const RESPONSES_STORE = "responses";
+
+// Bumped when prompts or parsing change in a way that makes old entries unusable
+const CACHE_KEY_VERSION = 1;
+
+export const DEFAULT_CACHE_TTL_HOURS = 24 * 7;
+
+export interface CachedResponse {
+  key: string;
+  agentName: string;
+  value: unknown; // The validated response
+  createdAt: number; // Epoch ms
+  expiresAt: number;
+}
+
+/**
+ * Cache lifetime from VITE_LLM_CACHE_TTL_HOURS (default one week); 0 disables caching
+ */
+export const resolveCacheTtlMs = (): number => {
+  const hours = Number(import.meta.env.VITE_LLM_CACHE_TTL_HOURS);
+  const ttlHours = import.meta.env.VITE_LLM_CACHE_TTL_HOURS && Number.isFinite(hours) ? hours : DEFAULT_CACHE_TTL_HOURS;
+  return Math.max(0, ttlHours) * 60 * 60 * 1000;
+};
+
+/**
+ * Cache key for a request: agent, provider, model, prompt, JSON flag and the SHA-256 of every attached file
+ */
+export const getResponseCacheKey = async (
+  agentName: string,
+  provider: LLMProvider,
+  request: GenerateRequest
+): Promise<string> => {
+  const files = await Promise.all((request.files || []).map(file => sha256Hex(file.data)));
+  return sha256Hex(JSON.stringify({
+    version: CACHE_KEY_VERSION,
+    agentName,
+    provider: provider.name,
+    model: provider.model,
+    prompt: request.prompt,
+    json: !!request.json,
+    files,
+  }));
+};
+
+/**
+ * In-memory cache, for tests and environments without IndexedDB
+ */
+export const createMemoryResponseCache = (ttlMs: number = resolveCacheTtlMs(), now: () => number = Date.now): ResponseCache => {
+  const entries = new Map<string, CachedResponse>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (entry.expiresAt <= now()) {
+        entries.delete(key);
+        return undefined;
+      }
+      return entry.value;
+    },
+    async set(key, agentName, value) {
+      if (ttlMs <= 0) return;
+      const createdAt = now();
+      entries.set(key, { key, agentName, value, createdAt, expiresAt: createdAt + ttlMs });
+    },
+    async clear() {
+      entries.clear();
+    },
+  };
+};
+
+/**
+ * Cache persisted in IndexedDB. Reads and writes that fail (no IndexedDB, quota) are logged and
+ * treated as misses so a run never fails because of the cache; clearing reports its errors.
+ */
+export const createIndexedDbResponseCache = (ttlMs: number = resolveCacheTtlMs(), now: () => number = Date.now): ResponseCache => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const getDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+        if (!db.objectStoreNames.contains(RESPONSES_STORE)) {
+          const responses = db.createObjectStore(RESPONSES_STORE, { keyPath: "key" });
+          responses.createIndex("expiresAt", "expiresAt");
+        }
+      }).catch(error => {
+        dbPromise = null;
+        throw error;
+      });
+    }
+    return dbPromise;
+  };
+
+  return {
+    async get(key) {
+      try {
+        const db = await getDb();
+        const entry = await withTransaction(db, RESPONSES_STORE, "readonly", (tx) =>
+          requestToPromise<CachedResponse | undefined>(tx.objectStore(RESPONSES_STORE).get(key))
+        );
+        if (!entry) return undefined;
+        if (entry.expiresAt <= now()) {
+          await withTransaction(db, RESPONSES_STORE, "readwrite", (tx) => {
+            tx.objectStore(RESPONSES_STORE).delete(key);
+          });
+          return undefined;
+        }
+        return entry.value;
+      } catch (error) {
+        logger.warn(`Response cache read failed: ${error instanceof Error ? error.message : String(error)}`);
+        return undefined;
+      }
+    },
+
+    async set(key, agentName, value) {
+      if (ttlMs <= 0) return;
+      try {
+        const db = await getDb();
+        const createdAt = now();
+        const entry: CachedResponse = { key, agentName, value, createdAt, expiresAt: createdAt + ttlMs };
+        await withTransaction(db, RESPONSES_STORE, "readwrite", (tx) => {
+          const store = tx.objectStore(RESPONSES_STORE);
+          store.put(entry);
+          // Drop every entry that has expired since the last write
+          store.index("expiresAt").openCursor(IDBKeyRange.upperBound(createdAt)).onsuccess = (event) => {
+            const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+            if (cursor) {
+              cursor.delete();
+              cursor.continue();
+            }
+          };
+        });
+      } catch (error) {
+        logger.warn(`Response cache write failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    },
+
+    async clear() {
+      const db = await getDb();
+      await withTransaction(db, RESPONSES_STORE, "readwrite", (tx) => {
+        tx.objectStore(RESPONSES_STORE).clear();
+      });
+      logger.log("Cleared cached model responses", "🧹");
+    },
+  };
+};
+
+/**
+ * Attach a response cache to a provider; generateStructured then serves validated responses from it
+ */
+export const withResponseCache = (provider: LLMProvider, cache: ResponseCache): LLMProvider => ({
+  ...provider,
+  responseCache: cache,
+});
+
+// One cache per page, shared by every run
+let sharedCache: ResponseCache | null = null;
+
+export const getSharedResponseCache = (): ResponseCache => {
+  if (!sharedCache) {
+    sharedCache = createIndexedDbResponseCache();
+  }
+  return sharedCache;
+};
@@ -0,0 +1,185 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    createRequestScheduler,
+    getRetryDelay,
+    isRetryableError,
+    scheduleProvider,
+    wasRetriedByScheduler,
+} from '@/services/llm/scheduler';
+import { createMockProvider } from '@/services/llm/mockProvider';
+
+vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+const deferred = () => {
+    let resolve!: (value: string) => void;
+    const promise = new Promise<string>(r => { resolve = r; });
+    return { promise, resolve };
+};
+
+const statusError = (status: number, message = `HTTP ${status}`) => Object.assign(new Error(message), { status });
+
+describe('createRequestScheduler', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.spyOn(Math, 'random').mockReturnValue(0);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.mocked(Math.random).mockRestore();
+    });
+
+    it('runs at most maxConcurrent requests at once, in arrival order', async () => {
+        const scheduler = createRequestScheduler({ maxConcurrent: 2, requestsPerMinute: 0 });
+        const tasks = [deferred(), deferred(), deferred()];
+        const started: number[] = [];
+        const results = tasks.map((task, i) => scheduler.schedule(() => {
+            started.push(i);
+            return task.promise;
+        }));
+
+        await vi.advanceTimersByTimeAsync(0);
+        expect(started).toEqual([0, 1]);
+        expect(scheduler.queued).toBe(1);
+
+        tasks[0].resolve('a');
+        await vi.advanceTimersByTimeAsync(0);
+        expect(started).toEqual([0, 1, 2]);
+
+        tasks[1].resolve('b');
+        tasks[2].resolve('c');
+        await expect(Promise.all(results)).resolves.toEqual(['a', 'b', 'c']);
+        expect(scheduler.active).toBe(0);
+    });
+
+    it('paces requests beyond the burst with the token bucket', async () => {
+        const scheduler = createRequestScheduler({ maxConcurrent: 10, requestsPerMinute: 60, burst: 2 });
+        const started: number[] = [];
+        const results = [0, 1, 2].map(i => scheduler.schedule(async () => { started.push(i); return i; }));
+
+        await vi.advanceTimersByTimeAsync(0);
+        expect(started).toEqual([0, 1]);
+
+        await vi.advanceTimersByTimeAsync(999);
+        expect(started).toEqual([0, 1]);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(started).toEqual([0, 1, 2]);
+        await expect(Promise.all(results)).resolves.toEqual([0, 1, 2]);
+    });
+
+    it('retries rate-limited and server errors with exponential backoff', async () => {
+        const scheduler = createRequestScheduler({ requestsPerMinute: 0, baseDelayMs: 1000 });
+        const task = vi.fn()
+            .mockRejectedValueOnce(new Error('429 RESOURCE_EXHAUSTED'))
+            .mockRejectedValueOnce(statusError(503))
+            .mockResolvedValue('ok');
+
+        const result = scheduler.schedule(task);
+        await vi.advanceTimersByTimeAsync(0);
+        expect(task).toHaveBeenCalledTimes(1);
+
+        await vi.advanceTimersByTimeAsync(500); // First backoff: half of 1s with zero jitter
+        expect(task).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(999); // Second backoff: half of 2s
+        expect(task).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(1);
+
+        await expect(result).resolves.toBe('ok');
+        expect(task).toHaveBeenCalledTimes(3);
+    });
+
+    it('does not retry client errors, and gives up after maxRetries', async () => {
+        const scheduler = createRequestScheduler({ requestsPerMinute: 0, maxRetries: 2, baseDelayMs: 10 });
+
+        const badRequest = vi.fn().mockRejectedValue(statusError(400));
+        await expect(scheduler.schedule(badRequest)).rejects.toThrow('HTTP 400');
+        expect(badRequest).toHaveBeenCalledTimes(1);
+
+        const overloaded = vi.fn().mockRejectedValue(statusError(503));
+        const result = scheduler.schedule(overloaded);
+        result.catch(() => {});
+        await vi.advanceTimersByTimeAsync(100);
+        await expect(result).rejects.toThrow('HTTP 503');
+        expect(overloaded).toHaveBeenCalledTimes(3);
+    });
+
+    it('marks only the errors it gave up retrying, so callers do not retry them again', async () => {
+        const scheduler = createRequestScheduler({ requestsPerMinute: 0, maxRetries: 1, baseDelayMs: 10 });
+
+        const badRequest = statusError(400);
+        await expect(scheduler.schedule(() => Promise.reject(badRequest))).rejects.toBe(badRequest);
+        expect(wasRetriedByScheduler(badRequest)).toBe(false);
+
+        const rateLimited = statusError(429);
+        const result = scheduler.schedule(() => Promise.reject(rateLimited));
+        result.catch(() => {});
+        await vi.advanceTimersByTimeAsync(100);
+        await expect(result).rejects.toBe(rateLimited);
+        expect(wasRetriedByScheduler(rateLimited)).toBe(true);
+    });
+
+    it('drops a queued request when its signal aborts', async () => {
+        const scheduler = createRequestScheduler({ maxConcurrent: 1, requestsPerMinute: 0 });
+        const running = deferred();
+        const first = scheduler.schedule(() => running.promise);
+        const controller = new AbortController();
+        const queuedTask = vi.fn();
+        const queued = scheduler.schedule(queuedTask, { signal: controller.signal });
+
+        controller.abort();
+        await expect(queued).rejects.toMatchObject({ name: 'AbortError' });
+        expect(scheduler.queued).toBe(0);
+
+        running.resolve('done');
+        await expect(first).resolves.toBe('done');
+        expect(queuedTask).not.toHaveBeenCalled();
+        expect(scheduler.active).toBe(0);
+    });
+
+    it('routes provider calls through the scheduler', async () => {
+        const scheduler = createRequestScheduler({ requestsPerMinute: 0, baseDelayMs: 10 });
+        let failed = false;
+        const provider = scheduleProvider(createMockProvider([{
+            match: 'Hello',
+            respond: () => {
+                if (!failed) {
+                    failed = true;
+                    throw new Error('503 UNAVAILABLE');
+                }
+                return 'Hi';
+            },
+        }]), scheduler);
+
+        const response = provider.generate({ prompt: 'Hello' });
+        await vi.advanceTimersByTimeAsync(10);
+        await expect(response).resolves.toEqual({ text: 'Hi' });
+    });
+});
+
+describe('isRetryableError', () => {
+    it('retries rate limits and server errors only', () => {
+        expect(isRetryableError(statusError(429))).toBe(true);
+        expect(isRetryableError(statusError(500))).toBe(true);
+        expect(isRetryableError(new Error('Local model request failed (502): Bad Gateway'))).toBe(true);
+        expect(isRetryableError(new Error('You exceeded your current quota'))).toBe(true);
+        expect(isRetryableError(statusError(400))).toBe(false);
+        expect(isRetryableError(new Error('Failed to parse Agent 2 response'))).toBe(false);
+        expect(isRetryableError(new DOMException('Aborted', 'AbortError'))).toBe(false);
+    });
+});
+
+describe('getRetryDelay', () => {
+    const options = { baseDelayMs: 1000, maxDelayMs: 60000 };
+
+    it('doubles per attempt with jitter in the upper half, up to the cap', () => {
+        expect(getRetryDelay(new Error('503'), 0, options, () => 0)).toBe(500);
+        expect(getRetryDelay(new Error('503'), 0, options, () => 1)).toBe(1000);
+        expect(getRetryDelay(new Error('503'), 3, options, () => 1)).toBe(8000);
+        expect(getRetryDelay(new Error('503'), 10, options, () => 1)).toBe(60000);
+    });
+
+    it('waits at least as long as the API asks', () => {
+        const error = new Error('429 RESOURCE_EXHAUSTED. Please retry in 37.5s.');
+        expect(getRetryDelay(error, 0, options, () => 0)).toBe(37500);
+    });
+});
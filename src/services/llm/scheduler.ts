@@ -0,0 +1,228 @@
+// Shared model request scheduler
+// Caps concurrent calls, paces them with a token bucket and retries rate-limit and server errors
+// with jittered exponential backoff, so a large flyer cannot trip the per-minute quota
+
+import { GenerateRequest, LLMProvider } from "@/services/llm/types";
+import { createAbortError, delay, isAbortError, throwIfAborted } from "@/utils/abort";
+import { logger } from "@/utils/logger";
+
+export interface SchedulerOptions {
+  maxConcurrent: number; // Requests in flight at once
+  requestsPerMinute: number; // Token refill rate; 0 disables rate limiting
+  burst: number; // Bucket size: requests that may start back to back
+  maxRetries: number; // Retries of a rate-limited or failed-server request
+  baseDelayMs: number; // First backoff; doubles per retry
+  maxDelayMs: number;
+}
+
+export const DEFAULT_SCHEDULER: SchedulerOptions = {
+  maxConcurrent: 4,
+  requestsPerMinute: 30, // Gemma free tier
+  burst: 4,
+  maxRetries: 4,
+  baseDelayMs: 2000,
+  maxDelayMs: 60000,
+};
+
+export interface ScheduleOptions {
+  signal?: AbortSignal;
+  label?: string; // Names the request in retry log lines
+}
+
+export interface RequestScheduler {
+  readonly options: SchedulerOptions;
+  readonly active: number; // Requests running now
+  readonly queued: number; // Requests waiting for a free slot
+  schedule<T>(task: () => Promise<T>, options?: ScheduleOptions): Promise<T>;
+}
+
+/**
+ * Scheduler options from env (VITE_LLM_MAX_CONCURRENCY, VITE_LLM_REQUESTS_PER_MINUTE, VITE_LLM_MAX_RETRIES),
+ * with explicit overrides winning
+ */
+export const resolveSchedulerOptions = (overrides: Partial<SchedulerOptions> = {}): SchedulerOptions => {
+  const env = import.meta.env;
+  const fromEnv = (value: string | undefined) => (value && Number.isFinite(Number(value)) ? Number(value) : undefined);
+
+  return {
+    ...DEFAULT_SCHEDULER,
+    maxConcurrent: fromEnv(env.VITE_LLM_MAX_CONCURRENCY) ?? DEFAULT_SCHEDULER.maxConcurrent,
+    requestsPerMinute: fromEnv(env.VITE_LLM_REQUESTS_PER_MINUTE) ?? DEFAULT_SCHEDULER.requestsPerMinute,
+    maxRetries: fromEnv(env.VITE_LLM_MAX_RETRIES) ?? DEFAULT_SCHEDULER.maxRetries,
+    ...overrides,
+  };
+};
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const errorStatus = (error: unknown): number | undefined => {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === "number" ? status : undefined;
+};
+
+/**
+ * Whether a request failed because the API quota or rate limit was exhausted
+ */
+export const isRateLimitError = (error: unknown): boolean =>
+  errorStatus(error) === 429 || /\b429\b|RESOURCE_EXHAUSTED|quota|rate limit/i.test(errorMessage(error));
+
+/**
+ * Whether a failed request is worth retrying: rate limits (429) and server errors (5xx), never cancellations
+ */
+export const isRetryableError = (error: unknown): boolean => {
+  if (isAbortError(error)) return false;
+  const status = errorStatus(error);
+  if (status !== undefined) return status === 429 || status >= 500;
+  return isRateLimitError(error) || /\b5\d\d\b|UNAVAILABLE|INTERNAL|overloaded|DEADLINE_EXCEEDED/i.test(errorMessage(error));
+};
+
+// Errors the scheduler gave up on after deciding about retries itself
+const exhaustedErrors = new WeakSet<object>();
+
+/**
+ * Whether a scheduler already retried this error as far as it allows, so callers must not retry it again.
+ * The scheduler owns rate-limit and server-error retries; stacking more on top multiplies quota use.
+ */
+export const wasRetriedByScheduler = (error: unknown): boolean =>
+  typeof error === "object" && error !== null && exhaustedErrors.has(error);
+
+/**
+ * Backoff before retry `attempt` (0-based): exponential with equal jitter, and never shorter
+ * than a "retry in 30s" hint the API put in the error
+ */
+export const getRetryDelay = (
+  error: unknown,
+  attempt: number,
+  options: Pick<SchedulerOptions, "baseDelayMs" | "maxDelayMs">,
+  random: () => number = Math.random
+): number => {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  const backoff = ceiling / 2 + random() * (ceiling / 2);
+
+  const hint = errorMessage(error).match(/retry(?:Delay)?\W+(?:in\s+)?(\d+(?:\.\d+)?)\s*s\b/i);
+  const hinted = hint ? Number(hint[1]) * 1000 : 0;
+  return Math.round(Math.min(options.maxDelayMs, Math.max(backoff, hinted)));
+};
+
+/**
+ * Create a scheduler; every request run through it shares one concurrency limit and token bucket
+ */
+export const createRequestScheduler = (overrides: Partial<SchedulerOptions> = {}): RequestScheduler => {
+  const options: SchedulerOptions = { ...DEFAULT_SCHEDULER, ...overrides };
+  const maxConcurrent = Math.max(1, options.maxConcurrent);
+  const burst = Math.max(1, options.burst);
+
+  let active = 0;
+  const waiting: { start: () => void }[] = [];
+  let tokens = burst;
+  let refilledAt = Date.now();
+
+  // Take a token if one is available, else report how long until the next one
+  const takeToken = (): number => {
+    if (options.requestsPerMinute <= 0) return 0;
+    const now = Date.now();
+    tokens = Math.min(burst, tokens + ((now - refilledAt) * options.requestsPerMinute) / 60000);
+    refilledAt = now;
+    if (tokens >= 1) {
+      tokens -= 1;
+      return 0;
+    }
+    return Math.ceil(((1 - tokens) * 60000) / options.requestsPerMinute);
+  };
+
+  const acquireSlot = (signal?: AbortSignal): Promise<void> => {
+    throwIfAborted(signal);
+    if (active < maxConcurrent) {
+      active++;
+      return Promise.resolve();
+    }
+
+    // Queued in arrival order; a released slot is handed straight to the next waiter
+    return new Promise<void>((resolve, reject) => {
+      const waiter = {
+        start: () => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve();
+        },
+      };
+      const onAbort = () => {
+        waiting.splice(waiting.indexOf(waiter), 1);
+        reject(createAbortError());
+      };
+      waiting.push(waiter);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  };
+
+  const releaseSlot = () => {
+    const next = waiting.shift();
+    if (next) {
+      next.start();
+    } else {
+      active--;
+    }
+  };
+
+  const runOnce = async <T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+    await acquireSlot(signal);
+    try {
+      for (let wait = takeToken(); wait > 0; wait = takeToken()) {
+        await delay(wait, signal);
+      }
+      return await task();
+    } finally {
+      releaseSlot();
+    }
+  };
+
+  return {
+    options,
+    get active() {
+      return active;
+    },
+    get queued() {
+      return waiting.length;
+    },
+    async schedule<T>(task: () => Promise<T>, { signal, label = "Model request" }: ScheduleOptions = {}): Promise<T> {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          return await runOnce(task, signal);
+        } catch (error) {
+          if (!isRetryableError(error)) throw error;
+          if (attempt >= options.maxRetries) {
+            if (typeof error === "object" && error !== null) exhaustedErrors.add(error);
+            throw error;
+          }
+
+          // A rate limit means every queued request is too early: empty the bucket so they slow down too
+          if (isRateLimitError(error)) tokens = 0;
+          const wait = getRetryDelay(error, attempt, options);
+          logger.warn(`${label}: ${errorMessage(error).substring(0, 120)} - retrying in ${(wait / 1000).toFixed(1)}s (retry ${attempt + 1} of ${options.maxRetries})`);
+          await delay(wait, signal);
+        }
+      }
+    },
+  };
+};
+
+/**
+ * Route a provider's requests through the scheduler
+ */
+export const scheduleProvider = (provider: LLMProvider, scheduler: RequestScheduler): LLMProvider => ({
+  ...provider,
+  generate: (request: GenerateRequest) =>
+    scheduler.schedule(() => provider.generate(request), {
+      signal: request.signal,
+      label: `${provider.name}/${provider.model}`,
+    }),
+});
+
+// One scheduler per page, so concurrent runs and agents share the same quota
+let sharedScheduler: RequestScheduler | null = null;
+
+export const getSharedScheduler = (): RequestScheduler => {
+  if (!sharedScheduler) {
+    sharedScheduler = createRequestScheduler(resolveSchedulerOptions());
+  }
+  return sharedScheduler;
+};
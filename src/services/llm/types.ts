@@ -0,0 +1,43 @@
+// Provider-agnostic model client types shared by every agent
+
+import { z } from "zod";
+
+export type AgentName = 'extractor' | 'librarian' | 'interpreter' | 'matcher';
+
+export type ProviderKind = 'gemini' | 'openai-compatible';
+
+export interface InlineFile {
+  data: string; // Base64 without the data URL prefix
+  mimeType: string;
+}
+
+export interface GenerateRequest {
+  prompt: string;
+  files?: InlineFile[];
+  json?: boolean; // Ask for JSON output when the provider supports a JSON mode
+  responseSchema?: z.ZodType; // Constrain JSON output to this shape when the provider supports it
+  signal?: AbortSignal; // Cancels the request when the run is aborted
+}
+
+export interface GenerateResponse {
+  text: string;
+}
+
+// Validated agent responses stored by request key (see responseCache.ts)
+export interface ResponseCache {
+  get(key: string): Promise<unknown | undefined>; // Undefined on a miss or an expired entry
+  set(key: string, agentName: string, value: unknown): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface LLMProvider {
+  name: string;
+  model: string;
+  supportsVision: boolean;
+  supportsJsonMode: boolean;
+  supportsResponseSchema: boolean;
+  responseCache?: ResponseCache; // generateStructured reuses validated responses from it
+  generate(request: GenerateRequest): Promise<GenerateResponse>;
+}
+
+export type AgentProviders = Record<AgentName, LLMProvider>;
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { findCloseAlternatives, findUnmatchedKeywords, hydrateMatches } from '@/services/matchHydration';
+import { GroceryMatch, MasterInventoryItem } from '@/types';
+import { logger } from '@/utils/logger';
+
+const item = (id: string, normalizedName: string, brand = '') => ({
+  id,
+  normalizedName,
+  rawName: normalizedName,
+  brand,
+  storeName: 'FreshMart',
+  price: '$2.99',
+  unit: '1 lb',
+  dealDescription: 'On sale',
+  isLossLeader: false,
+  category: 'Meat & Seafood',
+} as MasterInventoryItem);
+
+const inventory = [
+  item('3f2b9c1e-0000-4000-8000-000000000001', 'Chicken Breast'),
+  item('3f2b9c1e-0000-4000-8000-000000000002', 'Chicken Thighs'),
+  item('3f2b9c1e-0000-4000-8000-000000000003', 'Potato Chips', "Lay's"),
+  item('3f2b9c1e-0000-4000-8000-000000000004', 'Laundry Detergent', 'Tide'),
+];
+
+describe('hydrateMatches', () => {
+  it('joins matches onto their inventory records', () => {
+    const { matches, recovered, dropped } = hydrateMatches(
+      [{ id: inventory[2].id, itemName: 'Chips', confidence: 0.9 }],
+      inventory
+    );
+    expect(matches[0]).toMatchObject({ id: inventory[2].id, itemName: 'Chips', productName: 'Potato Chips', brand: "Lay's", quantity: '1 lb' });
+    expect(recovered).toEqual([]);
+    expect(dropped).toEqual([]);
+  });
+
+  it('recovers a truncated id', () => {
+    const { matches, recovered } = hydrateMatches([{ id: '3f2b9c1e-0000-4000-8000-00000000000', itemName: 'Chips' }], inventory.slice(2, 3));
+    expect(matches.map(m => m.id)).toEqual([inventory[2].id]);
+    expect(recovered).toHaveLength(1);
+  });
+
+  it('recovers an invented id from the item name and logs it', () => {
+    logger.reset();
+    const { matches, recovered } = hydrateMatches([{ id: 'item-42', itemName: 'Chicken Thigh' }], inventory);
+
+    expect(matches.map(m => m.productName)).toEqual(['Chicken Thighs']);
+    expect(recovered).toEqual([{ id: 'item-42', itemName: 'Chicken Thigh', recoveredId: inventory[1].id }]);
+    expect(logger.getLogsAsString()).toContain('Recovered match "Chicken Thigh"');
+  });
+
+  it('does not recover onto an item that is already matched', () => {
+    const { matches, dropped } = hydrateMatches([
+      { id: inventory[0].id, itemName: 'Chicken Breast' },
+      { id: 'bogus-id-123', itemName: 'Chicken Breast' },
+    ], inventory.slice(0, 1));
+    expect(matches).toHaveLength(1);
+    expect(dropped).toHaveLength(1);
+  });
+
+  it('reports matches it cannot place', () => {
+    logger.reset();
+    const { matches, dropped } = hydrateMatches([{ id: 'nope', itemName: 'Saffron' }], inventory);
+
+    expect(matches).toEqual([]);
+    expect(dropped).toEqual([{ id: 'nope', itemName: 'Saffron' }]);
+    expect(logger.getLogsAsString()).toContain('Dropped match "Saffron"');
+  });
+});
+
+describe('findCloseAlternatives', () => {
+  it('suggests similar unmatched items, best first', () => {
+    const matched = hydrateMatches([{ id: inventory[0].id, itemName: 'Chicken' }], inventory).matches;
+    const alternatives = findCloseAlternatives(['Chicken', 'Saffron'], inventory, matched);
+
+    expect(alternatives.Chicken.map(a => a.productName)).toEqual(['Chicken Thighs']);
+    expect(alternatives.Chicken[0].itemName).toBe('Chicken');
+    expect(alternatives.Saffron).toBeUndefined();
+  });
+});
+
+describe('findUnmatchedKeywords', () => {
+  it('lists keywords without a match, keeping the reported reason', () => {
+    const matched = hydrateMatches([{ id: inventory[2].id, itemName: 'potato chips' }], inventory).matches;
+    expect(findUnmatchedKeywords(['Potato Chips', 'Milk', 'Saffron'], matched, [{ keyword: 'saffron', reason: 'Not carried' }]))
+      .toEqual([
+        { keyword: 'Milk', reason: 'Not on sale this week' },
+        { keyword: 'Saffron', reason: 'Not carried' },
+      ]);
+  });
+
+  it('does not count a keyword as matched by a longer or shorter match name', () => {
+    const matched = hydrateMatches([{ id: inventory[0].id, itemName: 'chicken broth' }], inventory).matches;
+    expect(findUnmatchedKeywords(['Chicken', 'Broth', 'Chicken Broth'], matched, []).map(u => u.keyword))
+      .toEqual(['Chicken', 'Broth']);
+  });
+
+  it('ignores matches without an item name', () => {
+    const [blank] = hydrateMatches([{ id: inventory[2].id, itemName: '' }], inventory).matches;
+    const missing = { ...blank, itemName: undefined } as unknown as GroceryMatch;
+    expect(findUnmatchedKeywords(['Potato Chips', 'Milk'], [blank, missing], []).map(u => u.keyword))
+      .toEqual(['Potato Chips', 'Milk']);
+  });
+});
@@ -0,0 +1,172 @@
+// Agent 4 hydration
+// Joins matcher output back onto the inventory, recovering ids the model garbled
+// and reporting what could not be matched
+
+import { z } from "zod";
+import { GroceryMatch, MasterInventoryItem, UnmatchedListItem } from "@/types";
+import { Agent4ResponseSchema } from "@/schemas";
+import { itemSearchText } from "@/services/retrieval";
+import { logger } from "@/utils/logger";
+
+export type MatcherResponse = z.infer<typeof Agent4ResponseSchema>;
+type MatchItem = MatcherResponse["matches"][number];
+
+export const RECOVERY_SIMILARITY = 0.6; // Minimum name similarity to re-point a match with an unknown id
+export const ALTERNATIVE_SIMILARITY = 0.35; // Minimum name similarity for a close alternative
+export const MAX_ALTERNATIVES = 3;
+
+export interface HydrationResult {
+  matches: GroceryMatch[];
+  recovered: { id: string; itemName: string; recoveredId: string }[];
+  dropped: MatchItem[];
+}
+
+const normalizeText = (text: string | undefined | null): string =>
+  (text || "").toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+// Sorensen-Dice coefficient over character bigrams: tolerant of word order, plurals and typos
+const bigrams = (text: string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  const clean = normalizeText(text);
+  for (let i = 0; i < clean.length - 1; i++) {
+    const gram = clean.slice(i, i + 2);
+    if (gram.includes(" ")) continue;
+    counts.set(gram, (counts.get(gram) || 0) + 1);
+  }
+  return counts;
+};
+
+const textSimilarity = (a: string, b: string): number => {
+  const gramsA = bigrams(a);
+  const gramsB = bigrams(b);
+  const total = [...gramsA.values(), ...gramsB.values()].reduce((sum, n) => sum + n, 0);
+  if (total === 0) return 0;
+
+  let shared = 0;
+  gramsA.forEach((count, gram) => {
+    shared += Math.min(count, gramsB.get(gram) || 0);
+  });
+  return (2 * shared) / total;
+};
+
+// A keyword can match the product name alone or brand + name ("Lay's" vs "Lay's Potato Chips")
+const nameSimilarity = (text: string, item: MasterInventoryItem): number =>
+  Math.max(textSimilarity(text, item.normalizedName || item.rawName), textSimilarity(text, itemSearchText(item)));
+
+const toGroceryMatch = (item: MasterInventoryItem, m: Partial<MatchItem> & { itemName: string }): GroceryMatch => ({
+  ...item, // raw inventory data
+  ...m, // matcher overrides (itemName, etc)
+  id: item.id,
+  productName: item.normalizedName,
+  quantity: item.unit, // Map unit to quantity for display
+  brand: item.brand,   // Ensure brand is passed
+  isSale: item.isLossLeader,
+  confidence: m.confidence ?? 1,
+});
+
+/**
+ * Find the inventory item a match with an unknown id most likely meant: an id that differs only by
+ * truncation or extra characters, else the most similar name among items not already matched
+ */
+const recoverItem = (
+  m: MatchItem,
+  pool: MasterInventoryItem[],
+  taken: Set<string>
+): MasterInventoryItem | null => {
+  const id = m.id.trim();
+  const byId = id.length >= 8 ? pool.find(item => item.id.startsWith(id) || id.includes(item.id)) : undefined;
+  if (byId) return byId;
+
+  let best: MasterInventoryItem | null = null;
+  let bestScore = RECOVERY_SIMILARITY;
+  for (const item of pool) {
+    if (taken.has(item.id)) continue;
+    const score = nameSimilarity(m.itemName, item);
+    if (score >= bestScore) {
+      best = item;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+/**
+ * Join matcher output back onto the full inventory records.
+ * Unknown ids are recovered from `pool` (the items the matcher was shown) when possible;
+ * every recovery and every match that still cannot be placed is written to the pipeline log.
+ */
+export const hydrateMatches = (
+  rawMatches: MatchItem[],
+  inventory: MasterInventoryItem[],
+  pool: MasterInventoryItem[] = inventory
+): HydrationResult => {
+  const byId = new Map(inventory.map(item => [item.id, item]));
+  const taken = new Set(rawMatches.map(m => m.id).filter(id => byId.has(id)));
+  const result: HydrationResult = { matches: [], recovered: [], dropped: [] };
+
+  rawMatches.forEach(m => {
+    let item = byId.get(m.id) ?? null;
+    if (!item) {
+      item = recoverItem(m, pool, taken);
+      if (item) {
+        taken.add(item.id);
+        result.recovered.push({ id: m.id, itemName: m.itemName, recoveredId: item.id });
+        logger.log(`Recovered match "${m.itemName}": unknown id "${m.id}" -> ${item.normalizedName} (${item.id})`, '🩹');
+      } else {
+        result.dropped.push(m);
+        logger.warn(`Dropped match "${m.itemName}": id "${m.id}" is not in the inventory and no similar item was found`);
+        return;
+      }
+    }
+    result.matches.push(toGroceryMatch(item, m));
+  });
+
+  return result;
+};
+
+/**
+ * Close alternatives for each keyword: the most similar inventory items that were not matched
+ * @returns Keyword -> up to MAX_ALTERNATIVES items, most similar first (keywords without any are omitted)
+ */
+export const findCloseAlternatives = (
+  keywords: string[],
+  inventory: MasterInventoryItem[],
+  matches: GroceryMatch[]
+): Record<string, GroceryMatch[]> => {
+  const matchedIds = new Set(matches.map(m => m.id));
+  const remaining = inventory.filter(item => !matchedIds.has(item.id));
+  const alternatives: Record<string, GroceryMatch[]> = {};
+
+  keywords.forEach(keyword => {
+    const ranked = remaining
+      .map(item => ({ item, score: nameSimilarity(keyword, item) }))
+      .filter(r => r.score >= ALTERNATIVE_SIMILARITY)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_ALTERNATIVES);
+
+    if (ranked.length > 0) {
+      alternatives[keyword] = ranked.map(({ item, score }) =>
+        toGroceryMatch(item, { itemName: keyword, confidence: Math.round(score * 100) / 100 })
+      );
+    }
+  });
+
+  return alternatives;
+};
+
+/**
+ * Every keyword without a surviving match, with the matcher's reason when it gave one.
+ * Matches carry their keyword as `itemName`, so a keyword counts as matched only on an exact (normalized) hit.
+ */
+export const findUnmatchedKeywords = (
+  keywords: string[],
+  matches: GroceryMatch[],
+  reported: MatcherResponse["unmatched"]
+): UnmatchedListItem[] => {
+  const matchedKeywords = new Set(matches.map(m => normalizeText(m.itemName)).filter(Boolean));
+  const reasons = new Map(reported.map(u => [normalizeText(u.keyword), u.reason]));
+
+  return keywords
+    .filter(keyword => !matchedKeywords.has(normalizeText(keyword)))
+    .map(keyword => ({ keyword, reason: reasons.get(normalizeText(keyword)) || "Not on sale this week" }));
+};
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { expandListOffline, selectOfflineMatches } from '@/services/offlineMatcher';
+import { findUnmatchedKeywords, hydrateMatches } from '@/services/matchHydration';
+import { Agent4ResponseSchema } from '@/schemas';
+import { MasterInventoryItem } from '@/types';
+import { parsePrice } from '@/utils/pricing';
+
+const item = (id: string, normalizedName: string, price: string, isLossLeader = false) => ({
+  id,
+  normalizedName,
+  price,
+  parsedPrice: parsePrice(price),
+  dealDescription: `${normalizedName} deal`,
+  isLossLeader,
+} as MasterInventoryItem);
+
+describe('expandListOffline', () => {
+  it('splits the list and strips bullets and quantities', () => {
+    expect(expandListOffline('- 2 lbs of chicken breast\n1. milk, a dozen eggs; 3 cans tomato soup')).toEqual([
+      'Chicken Breast', 'Milk', 'Eggs', 'Tomato Soup',
+    ]);
+  });
+
+  it('expands vague entries and removes duplicates', () => {
+    expect(expandListOffline('sandwich stuff, cheese, Snacks')).toEqual([
+      'Bread', 'Deli Meat', 'Cheese', 'Chips', 'Crackers', 'Pretzels', 'Cookies',
+    ]);
+  });
+});
+
+describe('selectOfflineMatches', () => {
+  const inventory = [
+    item('a', 'Chicken Breast', '$3.99'),
+    item('b', 'Chicken Thighs', '$1.99'),
+    item('c', 'Whole Chicken', '$2.49', true),
+    item('d', 'Potato Chips', '$2.50'),
+  ];
+
+  it('returns Agent 4 shaped matches above the threshold', () => {
+    const response = selectOfflineMatches(['Chips', 'Bananas'], inventory, [
+      [0.1, 0.1, 0.1, 0.82],
+      [0.2, 0.2, 0.2, 0.2],
+    ]);
+
+    expect(Agent4ResponseSchema.parse(response)).toEqual(response);
+    expect(response.matches).toEqual([{
+      id: 'd', itemName: 'Chips', dealDescription: 'Potato Chips deal', confidence: 0.82, rationale: expect.stringContaining('Potato Chips'),
+    }]);
+    expect(response.unmatched).toEqual([{ keyword: 'Bananas', reason: 'Not on sale this week' }]);
+    expect(response.summary).toContain('1 of 2 list items');
+  });
+
+  it('orders kept matches by loss leader, then price', () => {
+    const response = selectOfflineMatches(['Chicken'], inventory, [[0.9, 0.8, 0.7, 0.1]]);
+    expect(response.matches.map(m => m.id)).toEqual(['c', 'b', 'a']);
+  });
+
+  it('lets one deal cover every keyword it matches', () => {
+    const response = selectOfflineMatches(['Meat', 'Chicken Breast'], inventory, [[0.6, 0, 0, 0], [0.95, 0, 0, 0]]);
+    expect(response.matches).toEqual([
+      expect.objectContaining({ id: 'a', itemName: 'Meat', confidence: 0.6 }),
+      expect.objectContaining({ id: 'a', itemName: 'Chicken Breast', confidence: 0.95 }),
+    ]);
+    expect(response.unmatched).toEqual([]);
+    expect(response.summary).toContain('Found 1 deal for 2 of 2 list items');
+
+    const { matches } = hydrateMatches(response.matches, inventory);
+    expect(findUnmatchedKeywords(['Meat', 'Chicken Breast'], matches, response.unmatched)).toEqual([]);
+  });
+
+  it('reports when nothing matches', () => {
+    const response = selectOfflineMatches(['Bananas'], inventory, [[0, 0, 0, 0]]);
+    expect(response.matches).toEqual([]);
+    expect(response.summary).toMatch(/No deals matched/);
+  });
+});
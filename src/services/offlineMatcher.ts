@@ -0,0 +1,151 @@
+// Offline matching
+// Stands in for Agents 3 and 4 without any model call: a rule-based list expander plus
+// MiniLM similarity in the classifier worker, producing the same response shape as Agent 4
+
+import { MasterInventoryItem } from "@/types";
+import { MatcherResponse } from "@/services/matchHydration";
+import { embedTexts } from "@/services/vectorClassifier";
+import { isAbortError } from "@/utils/abort";
+import { itemSearchText } from "@/services/retrieval";
+import { cosineSimilarity } from "@/utils/chunking";
+import { logger } from "@/utils/logger";
+import { compareByPrice } from "@/utils/pricing";
+
+export interface OfflineMatchOptions {
+  threshold: number; // Minimum similarity for a match (MiniLM scores short keywords lower than full sentences)
+  maxPerKeyword: number;
+}
+
+export const DEFAULT_OFFLINE_MATCH: OfflineMatchOptions = {
+  threshold: 0.55,
+  maxPerKeyword: 3,
+};
+
+// Vague list entries and the specific items Agent 3 would search for instead
+const LIST_EXPANSIONS: Record<string, string[]> = {
+  "sandwich stuff": ["Bread", "Deli Meat", "Cheese"],
+  "snacks": ["Chips", "Crackers", "Pretzels", "Cookies"],
+  "soda": ["Soda", "Cola", "Soft Drinks"],
+  "pop": ["Soda", "Cola", "Soft Drinks"],
+  "drinks": ["Soda", "Juice", "Water"],
+  "breakfast": ["Cereal", "Eggs", "Bacon", "Bread"],
+  "produce": ["Fruit", "Vegetables"],
+  "fruit": ["Apples", "Bananas", "Berries", "Oranges"],
+  "veggies": ["Vegetables", "Lettuce", "Tomatoes", "Carrots"],
+  "vegetables": ["Vegetables", "Lettuce", "Tomatoes", "Carrots"],
+  "meat": ["Chicken", "Beef", "Pork"],
+  "dairy": ["Milk", "Cheese", "Yogurt", "Butter"],
+  "cleaning supplies": ["Detergent", "Cleaner", "Paper Towels"],
+  "paper goods": ["Paper Towels", "Toilet Paper", "Napkins"],
+  "baking stuff": ["Flour", "Sugar", "Butter", "Eggs"],
+  "pet food": ["Dog Food", "Cat Food"],
+  "taco night": ["Tortillas", "Ground Beef", "Shredded Cheese", "Salsa"],
+  "pasta night": ["Pasta", "Pasta Sauce", "Parmesan"],
+};
+
+// Quantities and filler that carry no search meaning ("2 lbs of", "a dozen", "some")
+const QUANTITY_PATTERN = /^(?:\d+(?:[.,/]\d+)?\s*(?:x\s*)?(?:lbs?|pounds?|oz|ounces?|kg|g|gal(?:lons?)?|dozen|doz|pk|packs?|cans?|bags?|boxes|box|bottles?|jars?|ct)?\.?\s*|(?:a|an|some|few|couple)\s+(?:(?:dozen|pack|bag|box|can|bottle|jar|couple)\s+)?)(?:of\s+)?/i;
+
+const toTitleCase = (text: string) => text.replace(/\b[a-z]/g, char => char.toUpperCase());
+
+/**
+ * Rule-based replacement for Agent 3: split the list, strip quantities and expand common vague terms
+ * @returns Unique search keywords in list order
+ */
+export const expandListOffline = (groceryList: string): string[] => {
+  const entries = groceryList
+    .split(/[\n,;]+/)
+    .map(entry => entry.replace(/^\s*(?:[-*•]|\d+[.)])\s+/, "").trim())
+    .map(entry => entry.replace(QUANTITY_PATTERN, "").replace(/\s+/g, " ").trim().toLowerCase())
+    .filter(Boolean);
+
+  const keywords = entries.flatMap(entry => LIST_EXPANSIONS[entry] || [toTitleCase(entry)]);
+  return Array.from(new Set(keywords));
+};
+
+// Word overlap score used when embeddings are unavailable
+const tokenize = (text: string) => new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 1));
+const lexicalSimilarity = (keyword: string, text: string): number => {
+  const keywordTokens = tokenize(keyword);
+  if (keywordTokens.size === 0) return 0;
+  const textTokens = tokenize(text);
+  const shared = Array.from(keywordTokens).filter(word =>
+    textTokens.has(word) || textTokens.has(`${word}s`) || textTokens.has(word.replace(/s$/, ""))
+  ).length;
+  return shared / keywordTokens.size;
+};
+
+/**
+ * Pick the best deals per keyword from a keyword x item similarity matrix.
+ * Matches above the threshold are ranked by similarity, then loss leaders and lower prices
+ * come first, mirroring Agent 4's "prioritize lowest price or loss leaders" rule.
+ * One deal can serve several keywords, and is listed under each of them.
+ */
+export const selectOfflineMatches = (
+  keywords: string[],
+  inventory: MasterInventoryItem[],
+  similarities: number[][],
+  options: OfflineMatchOptions = DEFAULT_OFFLINE_MATCH
+): MatcherResponse => {
+  // Keyed by keyword and item id
+  const best = new Map<string, MatcherResponse["matches"][number]>();
+  const unmatched: MatcherResponse["unmatched"] = [];
+
+  keywords.forEach((keyword, k) => {
+    const kept = inventory
+      .map((item, i) => ({ item, score: similarities[k][i] }))
+      .filter(r => r.score >= options.threshold)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.maxPerKeyword)
+      .sort((a, b) => Number(b.item.isLossLeader) - Number(a.item.isLossLeader) || compareByPrice(a.item, b.item));
+
+    if (kept.length === 0) {
+      unmatched.push({ keyword, reason: "Not on sale this week" });
+    }
+    kept.forEach(({ item, score }) => {
+      const confidence = Math.round(Math.min(score, 1) * 100) / 100;
+      const key = `${keyword}\u0000${item.id}`;
+      const existing = best.get(key);
+      if (!existing || (existing.confidence ?? 0) < confidence) {
+        const rationale = `${item.normalizedName} is ${Math.round(confidence * 100)}% similar to "${keyword}"${item.isLossLeader ? " and is a loss leader" : ""}.`;
+        best.set(key, { id: item.id, itemName: keyword, dealDescription: item.dealDescription, confidence, rationale });
+      }
+    });
+  });
+
+  const matches = Array.from(best.values());
+  const dealCount = new Set(matches.map(m => m.id)).size;
+  const summary = matches.length > 0
+    ? `Found ${dealCount} deal${dealCount === 1 ? "" : "s"} for ${keywords.length - unmatched.length} of ${keywords.length} list items (matched offline).`
+    : "No deals matched your list in the saved inventory (matched offline).";
+
+  return { matches, unmatched, summary };
+};
+
+/**
+ * Match keywords against the inventory with MiniLM embeddings, falling back to word overlap
+ * if the embedding model cannot be loaded
+ */
+export const matchOffline = async (
+  keywords: string[],
+  inventory: MasterInventoryItem[],
+  overrides: Partial<OfflineMatchOptions> = {},
+  signal?: AbortSignal
+): Promise<MatcherResponse> => {
+  const options = { ...DEFAULT_OFFLINE_MATCH, ...overrides };
+  const texts = inventory.map(itemSearchText);
+  let similarities: number[][];
+
+  try {
+    const [keywordEmbeddings, itemEmbeddings] = await Promise.all([embedTexts(keywords, signal), embedTexts(texts, signal)]);
+    similarities = keywordEmbeddings.map(keywordEmbedding =>
+      itemEmbeddings.map(itemEmbedding => cosineSimilarity(keywordEmbedding, itemEmbedding))
+    );
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    logger.warn(`Embedding failed, matching offline by word overlap: ${error instanceof Error ? error.message : error}`);
+    similarities = keywords.map(keyword => texts.map(text => lexicalSimilarity(keyword, text)));
+  }
+
+  return selectOfflineMatches(keywords, inventory, similarities, options);
+};
@@ -0,0 +1,96 @@
+// Pipeline events
+// Typed progress and partial results emitted while analyzeGroceryAds runs, so the UI can render
+// inventory and matches as each agent produces them instead of waiting for the final result
+
+import {
+  AnalysisResult,
+  DealCategory,
+  FailedShard,
+  GroceryMatch,
+  MasterInventoryItem,
+  PipelineStageName,
+  PipelineWarning,
+  RawExtractedItem,
+  UnmatchedListItem
+} from "@/types";
+import { AgentName } from "@/services/llm/types";
+
+export type { PipelineStageName };
+
+export type PipelineEvent =
+  // A stage began; total is the number of batches it will run, when known up front
+  | { type: "stage_started"; stage: PipelineStageName; total?: number }
+  // Human-readable progress for the agent currently working
+  | { type: "status"; agent: AgentName; message: string }
+  // A stage recovered from an error; failedShard is set when a batch was skipped and can be retried
+  | { type: "warning"; warning: PipelineWarning; failedShard?: FailedShard }
+  // Agent 1 finished one batch of pages from a file
+  | {
+      type: "items_extracted";
+      fileName: string;
+      pageNumbers: number[];
+      items: RawExtractedItem[];
+      completedBatches: number;
+      totalBatches: number;
+    }
+  // Agent 2 normalized and categorized one shard; categorizedDeals covers every shard so far
+  | {
+      type: "shard_normalized";
+      shardIndex: number;
+      completedShards: number;
+      totalShards: number;
+      items: MasterInventoryItem[];
+      categorizedDeals: DealCategory[];
+    }
+  // The de-duplicated master inventory is final
+  | { type: "categories_ready"; inventory: MasterInventoryItem[]; categorizedDeals: DealCategory[] }
+  // Agent 3 expanded the shopping list
+  | { type: "keywords_ready"; keywords: string[] }
+  // Agent 4 matched the list against the inventory
+  | {
+      type: "matches_found";
+      matches: GroceryMatch[];
+      unmatched: UnmatchedListItem[];
+      alternatives: Record<string, GroceryMatch[]>;
+      summary: string;
+    }
+  | { type: "complete"; result: AnalysisResult }
+  // The run stopped with an error in its current stage
+  | { type: "failed"; error: string }
+  // The run was aborted through its AbortSignal
+  | { type: "cancelled" };
+
+export type PipelineEventListener = (event: PipelineEvent) => void;
+
+/**
+ * Fold an event into the partial result shown while the pipeline runs
+ * @returns The updated partial result, or the previous one if the event carries no result data
+ */
+export const applyPipelineEvent = (partial: AnalysisResult | null, event: PipelineEvent): AnalysisResult | null => {
+  const current: AnalysisResult = partial ?? { matches: [], categorizedDeals: [], summary: "", inventory: [] };
+
+  switch (event.type) {
+    case "warning":
+      return {
+        ...current,
+        warnings: [...(current.warnings || []), event.warning],
+        failedShards: event.failedShard ? [...(current.failedShards || []), event.failedShard] : current.failedShards,
+      };
+    case "shard_normalized":
+      return { ...current, categorizedDeals: event.categorizedDeals };
+    case "categories_ready":
+      return { ...current, inventory: event.inventory, categorizedDeals: event.categorizedDeals };
+    case "matches_found":
+      return {
+        ...current,
+        matches: event.matches,
+        unmatched: event.unmatched,
+        alternatives: event.alternatives,
+        summary: event.summary,
+      };
+    case "complete":
+      return event.result;
+    default:
+      return partial;
+  }
+};
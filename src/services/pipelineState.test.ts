@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getOverallProgress,
+  getStageDuration,
+  getStageProgress,
+  initialPipelineState,
+  isPipelineRunning,
+  PipelineState,
+  reducePipelineState,
+  startPipelineState
+} from '@/services/pipelineState';
+import { PipelineEvent } from '@/services/pipelineEvents';
+import { AnalysisResult } from '@/types';
+
+const run = (events: [PipelineEvent, number][], state: PipelineState = startPipelineState('Starting', 0)) =>
+  events.reduce((s, [event, now]) => reducePipelineState(s, event, now), state);
+
+const extracted = (completedBatches: number, totalBatches: number, count: number): PipelineEvent => ({
+  type: 'items_extracted',
+  fileName: 'ad.pdf',
+  pageNumbers: [completedBatches],
+  items: Array.from({ length: count }, () => ({ rawName: 'Item', price: '$1' })),
+  completedBatches,
+  totalBatches,
+});
+
+describe('reducePipelineState', () => {
+  it('tracks batches, items and timing for the active stage', () => {
+    const state = run([
+      [{ type: 'stage_started', stage: 'extracting' }, 100],
+      [{ type: 'status', agent: 'extractor', message: 'Scanning' }, 150],
+      [extracted(1, 4, 3), 1000],
+    ]);
+
+    expect(state.stage).toBe('extracting');
+    expect(state.message).toBe('Scanning');
+    expect(state.stages.extracting).toMatchObject({ status: 'active', startedAt: 100, completed: 1, total: 4, itemCount: 3 });
+    expect(getStageProgress(state.stages.extracting)).toBe(25);
+    expect(getStageDuration(state.stages.extracting, 1100)).toBe(1000);
+    expect(isPipelineRunning(state)).toBe(true);
+  });
+
+  it('closes the previous stage when the next one starts', () => {
+    const state = run([
+      [{ type: 'stage_started', stage: 'extracting' }, 0],
+      [extracted(1, 2, 2), 500],
+      [{ type: 'stage_started', stage: 'normalizing', total: 3 }, 800],
+    ]);
+
+    expect(state.stages.extracting).toMatchObject({ status: 'done', finishedAt: 800, completed: 2 });
+    expect(state.stages.normalizing).toMatchObject({ status: 'active', total: 3, completed: 0 });
+    expect(getOverallProgress(state)).toBe(50);
+  });
+
+  it('marks stages that never ran as skipped', () => {
+    const state = run([
+      [{ type: 'stage_started', stage: 'interpreting', total: 1 }, 0],
+      [{ type: 'keywords_ready', keywords: ['Milk', 'Eggs'] }, 10],
+      [{ type: 'stage_started', stage: 'matching', total: 1 }, 20],
+      [{ type: 'complete', result: {} as AnalysisResult }, 30],
+    ]);
+
+    expect(Object.values(state.stages).map(s => s.status)).toEqual(['skipped', 'skipped', 'done', 'done']);
+    expect(state.stages.interpreting.itemCount).toBe(2);
+    expect(state).toMatchObject({ stage: 'done', finishedAt: 30 });
+    expect(getOverallProgress(state)).toBe(100);
+    expect(isPipelineRunning(state)).toBe(false);
+  });
+
+  it('records the stage a run failed in', () => {
+    const state = run([
+      [{ type: 'stage_started', stage: 'extracting' }, 0],
+      [{ type: 'failed', error: 'Boom' }, 40],
+    ]);
+
+    expect(state).toMatchObject({ stage: 'failed', failedStage: 'extracting', error: 'Boom', finishedAt: 40 });
+    expect(state.stages.extracting.status).toBe('failed');
+    expect(isPipelineRunning(state)).toBe(false);
+  });
+
+  it('cancels the active stage, but not a run that already ended', () => {
+    const cancelled = run([
+      [{ type: 'stage_started', stage: 'extracting' }, 0],
+      [{ type: 'cancelled' }, 25],
+    ]);
+    expect(cancelled).toMatchObject({ stage: 'cancelled', finishedAt: 25 });
+    expect(cancelled.stages.extracting.status).toBe('cancelled');
+    expect(isPipelineRunning(cancelled)).toBe(false);
+
+    const failed = run([[{ type: 'failed', error: 'Boom' }, 10], [{ type: 'cancelled' }, 20]]);
+    expect(failed.stage).toBe('failed');
+  });
+
+  it('counts the warnings of each stage', () => {
+    const warning = (stage: 'extracting' | 'matching'): PipelineEvent => ({ type: 'warning', warning: { stage, message: 'Skipped' } });
+    const state = run([
+      [{ type: 'stage_started', stage: 'extracting' }, 0],
+      [warning('extracting'), 10],
+      [warning('extracting'), 20],
+      [{ type: 'stage_started', stage: 'matching' }, 30],
+      [warning('matching'), 40],
+    ]);
+
+    expect(state.stages.extracting).toMatchObject({ status: 'done', warningCount: 2 });
+    expect(state.stages.matching).toMatchObject({ status: 'active', warningCount: 1 });
+    expect(state.stages.normalizing.warningCount).toBe(0);
+  });
+
+  it('stays idle until a run starts', () => {
+    expect(isPipelineRunning(initialPipelineState)).toBe(false);
+    expect(getOverallProgress(initialPipelineState)).toBe(0);
+  });
+});
@@ -0,0 +1,170 @@
+// Pipeline state machine
+// Folds pipeline events into per-stage status, timing, counts and progress for the progress panel
+
+import { PipelineEvent, PipelineStageName } from "@/services/pipelineEvents";
+
+export const PIPELINE_STAGES: PipelineStageName[] = ["extracting", "normalizing", "interpreting", "matching"];
+
+// Share of the overall progress bar each stage accounts for (vision extraction dominates run time)
+const STAGE_WEIGHTS: Record<PipelineStageName, number> = {
+  extracting: 0.5,
+  normalizing: 0.3,
+  interpreting: 0.1,
+  matching: 0.1,
+};
+
+export type StageStatus = "pending" | "active" | "done" | "skipped" | "failed" | "cancelled";
+
+export interface StageProgress {
+  status: StageStatus;
+  startedAt?: number; // Epoch ms
+  finishedAt?: number;
+  completed: number; // Batches finished
+  total: number; // Batches expected, 0 when unknown
+  itemCount: number; // Items extracted, normalized, keywords expanded or deals matched
+  warningCount: number; // Errors the stage recovered from (skipped batches, fallbacks)
+}
+
+export interface PipelineState {
+  stage: "idle" | "starting" | PipelineStageName | "done" | "failed" | "cancelled";
+  failedStage?: PipelineStageName;
+  error?: string;
+  message: string; // Latest human-readable status
+  startedAt?: number;
+  finishedAt?: number;
+  stages: Record<PipelineStageName, StageProgress>;
+}
+
+const pendingStage = (): StageProgress => ({ status: "pending", completed: 0, total: 0, itemCount: 0, warningCount: 0 });
+
+export const initialPipelineState: PipelineState = {
+  stage: "idle",
+  message: "",
+  stages: {
+    extracting: pendingStage(),
+    normalizing: pendingStage(),
+    interpreting: pendingStage(),
+    matching: pendingStage(),
+  },
+};
+
+/**
+ * Fresh state for a run that has been requested but not reached its first stage
+ */
+export const startPipelineState = (message: string, now = Date.now()): PipelineState => ({
+  ...initialPipelineState,
+  stage: "starting",
+  message,
+  startedAt: now,
+});
+
+export const isPipelineRunning = (state: PipelineState): boolean =>
+  state.stage !== "idle" && state.stage !== "done" && state.stage !== "failed" && state.stage !== "cancelled";
+
+const currentStage = (state: PipelineState): PipelineStageName | null =>
+  PIPELINE_STAGES.find(stage => stage === state.stage) ?? null;
+
+const updateStage = (
+  state: PipelineState,
+  stage: PipelineStageName,
+  update: (progress: StageProgress) => Partial<StageProgress>
+): PipelineState => ({
+  ...state,
+  stages: { ...state.stages, [stage]: { ...state.stages[stage], ...update(state.stages[stage]) } },
+});
+
+// Close the active stage, and mark stages that never ran (offline matching starts at Agent 3) as skipped
+const enterStage = (state: PipelineState, next: PipelineStageName | "done", now: number): PipelineState => {
+  const stages = { ...state.stages };
+  const nextIndex = next === "done" ? PIPELINE_STAGES.length : PIPELINE_STAGES.indexOf(next);
+
+  PIPELINE_STAGES.slice(0, nextIndex).forEach(stage => {
+    const progress = stages[stage];
+    if (progress.status === "active") {
+      stages[stage] = { ...progress, status: "done", finishedAt: now, completed: Math.max(progress.completed, progress.total) };
+    } else if (progress.status === "pending") {
+      stages[stage] = { ...progress, status: "skipped" };
+    }
+  });
+
+  return { ...state, stage: next, stages };
+};
+
+/**
+ * Apply one pipeline event to the state
+ * @param now - Event time in epoch ms (injectable for tests)
+ */
+export const reducePipelineState = (state: PipelineState, event: PipelineEvent, now = Date.now()): PipelineState => {
+  switch (event.type) {
+    case "stage_started": {
+      const entered = enterStage({ ...state, startedAt: state.startedAt ?? now }, event.stage, now);
+      return updateStage(entered, event.stage, () => ({ status: "active", startedAt: now, total: event.total ?? 0 }));
+    }
+    case "status":
+      return { ...state, message: event.message };
+    case "warning":
+      return updateStage(state, event.warning.stage, progress => ({ warningCount: progress.warningCount + 1 }));
+    case "items_extracted":
+      return updateStage(state, "extracting", progress => ({
+        completed: event.completedBatches,
+        total: event.totalBatches,
+        itemCount: progress.itemCount + event.items.length,
+      }));
+    case "shard_normalized":
+      return updateStage(state, "normalizing", progress => ({
+        completed: event.completedShards,
+        total: event.totalShards,
+        itemCount: progress.itemCount + event.items.length,
+      }));
+    case "categories_ready":
+      // De-duplication can shrink the count below the per-shard total
+      return updateStage(state, "normalizing", () => ({ itemCount: event.inventory.length }));
+    case "keywords_ready":
+      return updateStage(state, "interpreting", () => ({ completed: 1, total: 1, itemCount: event.keywords.length }));
+    case "matches_found":
+      return updateStage(state, "matching", () => ({ completed: 1, total: 1, itemCount: event.matches.length }));
+    case "complete":
+      return { ...enterStage(state, "done", now), finishedAt: now, message: "Done" };
+    case "failed": {
+      const stage = currentStage(state);
+      const failed = stage ? updateStage(state, stage, () => ({ status: "failed", finishedAt: now })) : state;
+      return { ...failed, stage: "failed", failedStage: stage ?? undefined, error: event.error, finishedAt: now };
+    }
+    case "cancelled": {
+      // Ignored once the run has ended, so an abort racing completion does not undo it
+      if (!isPipelineRunning(state)) return state;
+      const stage = currentStage(state);
+      const cancelled = stage ? updateStage(state, stage, () => ({ status: "cancelled", finishedAt: now })) : state;
+      return { ...cancelled, stage: "cancelled", message: "Cancelled", finishedAt: now };
+    }
+    default:
+      return state;
+  }
+};
+
+/**
+ * Percentage complete for one stage; active stages without a known batch count report 0
+ */
+export const getStageProgress = (progress: StageProgress): number => {
+  if (progress.status === "done" || progress.status === "skipped") return 100;
+  if (progress.total === 0) return 0;
+  return Math.round((Math.min(progress.completed, progress.total) / progress.total) * 100);
+};
+
+/**
+ * Weighted percentage complete for the whole run
+ */
+export const getOverallProgress = (state: PipelineState): number => {
+  if (state.stage === "done") return 100;
+  const weighted = PIPELINE_STAGES.reduce(
+    (sum, stage) => sum + STAGE_WEIGHTS[stage] * getStageProgress(state.stages[stage]),
+    0
+  );
+  return Math.round(weighted);
+};
+
+/**
+ * Milliseconds a stage has been running (or ran for), or null if it never started
+ */
+export const getStageDuration = (progress: StageProgress, now = Date.now()): number | null =>
+  progress.startedAt === undefined ? null : (progress.finishedAt ?? now) - progress.startedAt;
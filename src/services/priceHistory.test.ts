@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { buildPriceHistory, getProductKey, PriceHistoryIndex, scoreDeal } from '@/services/priceHistory';
+import { MasterInventoryItem, StoreWeekInventory } from '@/types';
+import { parsePrice } from '@/utils/pricing';
+import { computeUnitPrice, parseMeasure } from '@/utils/units';
+import { getValidityWeekKey } from '@/utils/weeks';
+
+const milk = (price: string, validDates: string, overrides: Partial<MasterInventoryItem> = {}): MasterInventoryItem => {
+  const base = {
+    id: `milk-${validDates}`,
+    storeName: 'FreshMart',
+    rawName: 'Whole Milk Gallon',
+    normalizedName: 'Whole Milk',
+    brand: '',
+    price,
+    unit: '1 gal',
+    dealDescription: '',
+    category: 'Dairy & Eggs',
+    isLossLeader: false,
+    validDates,
+    productName: 'Whole Milk',
+    itemName: 'Whole Milk',
+    isSale: false,
+    ...overrides,
+  };
+  const priced = {
+    ...base,
+    parsedPrice: parsePrice(base.price, base.dealDescription),
+    parsedOriginalPrice: base.originalPrice ? parsePrice(base.originalPrice) : undefined,
+    measure: parseMeasure(base.unit),
+  };
+  return { ...priced, unitPrice: computeUnitPrice(priced) };
+};
+
+const week = (item: MasterInventoryItem): StoreWeekInventory => ({
+  storeName: item.storeName,
+  weekKey: getValidityWeekKey(item.validDates),
+  runId: 'run',
+  savedAt: '2024-10-01T00:00:00.000Z',
+  items: [item],
+});
+
+const PAST_WEEKS = ['Sep 29, 2024 - Oct 5, 2024', 'Oct 6, 2024 - Oct 12, 2024', 'Oct 13, 2024 - Oct 19, 2024'];
+const THIS_WEEK = 'Oct 20, 2024 - Oct 26, 2024';
+
+describe('buildPriceHistory', () => {
+  it('indexes one point per store and week, oldest first', () => {
+    const history = buildPriceHistory([
+      week(milk('$3.49', PAST_WEEKS[1], { originalPrice: '$3.99' })),
+      week(milk('$3.99', PAST_WEEKS[0])),
+    ]);
+
+    expect(history.get(getProductKey(milk('$3.49', THIS_WEEK)))).toEqual([
+      { weekKey: getValidityWeekKey(PAST_WEEKS[0]), storeName: 'FreshMart', price: 3.99, regularPrice: null },
+      { weekKey: getValidityWeekKey(PAST_WEEKS[1]), storeName: 'FreshMart', price: 3.49, regularPrice: 3.99 },
+    ]);
+  });
+});
+
+describe('scoreDeal', () => {
+  const current = milk('$2.99', THIS_WEEK);
+  const history: PriceHistoryIndex = buildPriceHistory([
+    week(milk('$3.99', PAST_WEEKS[0])),
+    week(milk('$3.49', PAST_WEEKS[1])),
+    week(milk('$3.99', PAST_WEEKS[2])),
+    // This week's listing was saved too; it must not count as its own history
+    week(current),
+  ]);
+
+  it('scores against past weeks only, excluding the current listing', () => {
+    const score = scoreDeal(current, history)!;
+
+    expect(score.points.map(p => p.weekKey)).toEqual(PAST_WEEKS.map(w => getValidityWeekKey(w)));
+    expect(score.historicalLow).toBe(3.49);
+    expect(score.medianPrice).toBe(3.99);
+    expect(score.currentPrice).toBe(2.99);
+    expect(score).toMatchObject({ score: 100, label: 'Great' });
+  });
+
+  it('prefers the typical regular price over the median as the reference', () => {
+    const score = scoreDeal(milk('$3.74', THIS_WEEK, { originalPrice: '$4.49' }), history)!;
+
+    expect(score.typicalRegular).toBe(4.49);
+    // Halfway between the historical low (3.49) and the regular price (4.49)
+    expect(score.score).toBe(75);
+    expect(score.points).toHaveLength(3);
+  });
+
+  it('keeps the same past points when there is nothing to compare against', () => {
+    const onlyThisWeek = buildPriceHistory([week(current)]);
+    const score = scoreDeal(current, onlyThisWeek)!;
+
+    expect(score).toMatchObject({ score: null, label: 'New', historicalLow: null });
+    expect(score.points).toEqual([]);
+  });
+
+  it('counts another store in the same week as history', () => {
+    const otherStore = buildPriceHistory([week(milk('$3.29', THIS_WEEK, { storeName: 'ValueGrocer' })), week(current)]);
+    const score = scoreDeal(current, otherStore)!;
+
+    expect(score.points).toEqual([
+      { weekKey: getValidityWeekKey(THIS_WEEK), storeName: 'ValueGrocer', price: 3.29, regularPrice: null },
+    ]);
+  });
+
+  it('returns null without a usable current price', () => {
+    expect(scoreDeal(milk('See store', THIS_WEEK), history)).toBeNull();
+  });
+});
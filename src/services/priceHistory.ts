@@ -0,0 +1,149 @@
+// Historical price tracking
+// Builds a per-product price history from saved store/week inventories and scores current deals against it
+
+import { DealScore, Measure, ParsedPrice, PriceHistoryPoint, StoreWeekInventory } from "@/types";
+import { listStoreWeekInventories } from "@/services/historyStore";
+import { effectiveUnitPrice, getParsedOriginalPrice, getParsedPrice } from "@/utils/pricing";
+import { parseMeasure } from "@/utils/units";
+import { getValidityWeekKey } from "@/utils/weeks";
+
+export type PriceHistoryIndex = Map<string, PriceHistoryPoint[]>;
+
+interface HistoryItem {
+  price: string;
+  storeName: string;
+  validDates?: string;
+  dealDescription?: string;
+  brand?: string;
+  unit?: string;
+  quantity?: string;
+  normalizedName?: string;
+  productName?: string;
+  itemName?: string;
+  originalPrice?: string | null;
+  parsedPrice?: ParsedPrice;
+  parsedOriginalPrice?: ParsedPrice;
+  measure?: Measure | null;
+}
+
+const normalizeText = (text: string | undefined | null): string =>
+  (text || "").toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+/**
+ * Key identifying the same product across weeks: normalized name + brand + package size
+ */
+export const getProductKey = (item: HistoryItem): string => {
+  const name = normalizeText(item.normalizedName || item.productName || item.itemName);
+  const brand = normalizeText(item.brand);
+  const measure = item.measure !== undefined ? item.measure : parseMeasure(item.unit || item.quantity);
+  const parsed = getParsedPrice(item);
+
+  let size = normalizeText(item.unit || item.quantity);
+  if (parsed.kind === 'per_weight' && parsed.priceUnit) {
+    size = `per ${parsed.priceUnit}`;
+  } else if (measure) {
+    size = `${measure.dimension}:${Math.round(measure.amount)}`;
+  }
+
+  return `${name}|${brand}|${size}`;
+};
+
+/**
+ * Build a price history index from stored inventories, one point per product per store/week
+ */
+export const buildPriceHistory = (inventories: StoreWeekInventory[]): PriceHistoryIndex => {
+  const index: PriceHistoryIndex = new Map();
+
+  inventories.forEach(inventory => {
+    inventory.items.forEach(item => {
+      const price = effectiveUnitPrice(item);
+      if (price === null) return;
+
+      const key = getProductKey(item);
+      const points = index.get(key) || [];
+      points.push({
+        weekKey: inventory.weekKey,
+        storeName: inventory.storeName,
+        price,
+        regularPrice: getParsedOriginalPrice(item)?.unitPrice ?? null,
+      });
+      index.set(key, points);
+    });
+  });
+
+  index.forEach(points => points.sort((a, b) => a.weekKey.localeCompare(b.weekKey)));
+  return index;
+};
+
+/**
+ * Load all saved inventories and index their prices
+ */
+export const loadPriceHistory = async (): Promise<PriceHistoryIndex> => {
+  const inventories = await listStoreWeekInventories();
+  return buildPriceHistory(inventories);
+};
+
+/**
+ * Score how good the current price is relative to the product's history.
+ * 100 means at or below the historical low, 0 means at or above the typical regular price.
+ */
+export const scoreDeal = (item: HistoryItem, history: PriceHistoryIndex | null): DealScore | null => {
+  const currentPrice = effectiveUnitPrice(item);
+  if (currentPrice === null) return null;
+
+  const currentWeek = getValidityWeekKey(item.validDates);
+  const allPoints = history?.get(getProductKey(item)) || [];
+  // Exclude this week's own listing from the baseline
+  const past = allPoints.filter(p => !(p.weekKey === currentWeek && p.storeName === item.storeName));
+
+  const regularPrices = past
+    .map(p => p.regularPrice)
+    .filter((p): p is number => p !== null);
+  const currentRegular = getParsedOriginalPrice(item)?.unitPrice ?? null;
+  if (currentRegular !== null) regularPrices.push(currentRegular);
+
+  const pastPrices = past.map(p => p.price);
+  const historicalLow = pastPrices.length > 0 ? Math.min(...pastPrices) : null;
+  const medianPrice = pastPrices.length > 0 ? median(pastPrices) : null;
+  const typicalRegular = regularPrices.length > 0 ? median(regularPrices) : null;
+
+  // Reference "no deal" price: typical regular price, else the historical median
+  const reference = typicalRegular ?? medianPrice;
+  if (reference === null) {
+    return {
+      score: null,
+      label: 'New',
+      currentPrice,
+      historicalLow,
+      medianPrice,
+      typicalRegular,
+      points: past,
+    };
+  }
+
+  const floor = historicalLow !== null ? Math.min(historicalLow, reference) : reference * 0.5;
+  let score: number;
+  if (currentPrice <= floor) {
+    score = 100;
+  } else if (currentPrice >= reference) {
+    score = 0;
+  } else {
+    score = Math.round(((reference - currentPrice) / (reference - floor)) * 100);
+  }
+
+  return {
+    score,
+    label: score >= 85 ? 'Great' : score >= 60 ? 'Good' : score >= 30 ? 'Fair' : 'Poor',
+    currentPrice,
+    historicalLow,
+    medianPrice,
+    typicalRegular,
+    points: past,
+  };
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_RETRIEVAL, selectCandidates } from '@/services/retrieval';
+import { MasterInventoryItem } from '@/types';
+
+const inventory = ['Chicken Breast', 'Chicken Thighs', 'Potato Chips', 'Laundry Detergent'].map((name, i) => ({
+  id: `item-${i}`,
+  normalizedName: name,
+} as MasterInventoryItem));
+
+// Hand-made 3-d embeddings: axis 0 = chicken, 1 = snacks, 2 = household
+const itemEmbeddings = [[1, 0, 0], [0.9, 0.1, 0], [0, 1, 0], [0, 0, 1]];
+
+describe('selectCandidates', () => {
+  it('keeps items above the threshold for each keyword', () => {
+    const { candidates, candidatesByKeyword } = selectCandidates(
+      ['chicken', 'chips'], inventory, [[1, 0, 0], [0, 1, 0]], itemEmbeddings,
+      { ...DEFAULT_RETRIEVAL, minPerKeyword: 1 }
+    );
+
+    expect(candidatesByKeyword).toEqual({ chicken: ['item-0', 'item-1'], chips: ['item-2'] });
+    expect(candidates.map(c => c.id)).not.toContain('item-3');
+  });
+
+  it('limits each keyword to the top k', () => {
+    const { candidatesByKeyword } = selectCandidates(
+      ['chicken'], inventory, [[1, 0, 0]], itemEmbeddings,
+      { ...DEFAULT_RETRIEVAL, topK: 1, minPerKeyword: 1 }
+    );
+    expect(candidatesByKeyword.chicken).toEqual(['item-0']);
+  });
+
+  it('keeps the best few candidates when none pass the threshold', () => {
+    const { candidatesByKeyword } = selectCandidates(
+      ['snacks'], inventory, [[0.5, 0.6, 0.1]], itemEmbeddings,
+      { ...DEFAULT_RETRIEVAL, threshold: 0.99, minPerKeyword: 2 }
+    );
+    expect(candidatesByKeyword.snacks).toEqual(['item-2', 'item-1']);
+  });
+
+  it('orders the union by best similarity to any keyword', () => {
+    const { candidates, relevance } = selectCandidates(
+      ['poultry', 'cleaning'], inventory, [[0.8, 0.2, 0], [0, 0, 1]], itemEmbeddings,
+      { ...DEFAULT_RETRIEVAL, minPerKeyword: 1 }
+    );
+    expect(candidates[0].id).toBe('item-3');
+    expect(relevance).toHaveLength(candidates.length);
+    expect(relevance[0]).toBeCloseTo(1);
+    expect([...relevance].sort((a, b) => b - a)).toEqual(relevance);
+  });
+});
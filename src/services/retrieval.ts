@@ -0,0 +1,107 @@
+// Candidate retrieval for Agent 4
+// Embeds the list keywords and inventory so only plausible matches are sent to the matcher
+
+import { MasterInventoryItem } from "@/types";
+import { embedTexts } from "@/services/vectorClassifier";
+import { isAbortError } from "@/utils/abort";
+import { calculateMaxSimilarity, cosineSimilarity } from "@/utils/chunking";
+import { logger } from "@/utils/logger";
+
+export const SEMANTIC_THRESHOLD = 0.7; // Minimum similarity score to pass filtering
+
+export interface RetrievalOptions {
+  threshold: number;
+  topK: number; // Candidates kept per keyword
+  minPerKeyword: number; // Best candidates kept per keyword even below the threshold, so no keyword comes back empty
+  minInventorySize: number; // Smaller inventories are sent whole
+}
+
+export const DEFAULT_RETRIEVAL: RetrievalOptions = {
+  threshold: SEMANTIC_THRESHOLD,
+  topK: 15,
+  minPerKeyword: 3,
+  minInventorySize: 50,
+};
+
+export interface RetrievalResult {
+  candidates: MasterInventoryItem[];
+  relevance: number[]; // Each candidate's best similarity to any keyword, parallel to candidates
+  candidatesByKeyword: Record<string, string[]>; // Keyword -> candidate ids, best first
+}
+
+// Text embedded for an inventory item when comparing it to list keywords
+export const itemSearchText = (item: MasterInventoryItem) => [item.brand, item.normalizedName || item.rawName].filter(Boolean).join(" ");
+
+/**
+ * Pick the top-k inventory items per keyword from precomputed embeddings
+ * @returns Union of all keywords' candidates, most relevant first
+ */
+export const selectCandidates = (
+  keywords: string[],
+  inventory: MasterInventoryItem[],
+  keywordEmbeddings: number[][],
+  itemEmbeddings: number[][],
+  options: RetrievalOptions = DEFAULT_RETRIEVAL
+): RetrievalResult => {
+  const selected = new Set<number>();
+  const candidatesByKeyword: Record<string, string[]> = {};
+
+  keywords.forEach((keyword, k) => {
+    const ranked = itemEmbeddings
+      .map((embedding, i) => ({ i, score: cosineSimilarity(keywordEmbeddings[k], embedding) }))
+      .sort((a, b) => b.score - a.score);
+
+    const passing = ranked.filter(r => r.score >= options.threshold);
+    const kept = (passing.length >= options.minPerKeyword ? passing : ranked.slice(0, options.minPerKeyword))
+      .slice(0, options.topK);
+
+    kept.forEach(r => selected.add(r.i));
+    candidatesByKeyword[keyword] = kept.map(r => inventory[r.i].id);
+  });
+
+  // Order by the best score against any keyword
+  const relevance = new Map(Array.from(selected).map(i => [i, calculateMaxSimilarity(itemEmbeddings[i], keywordEmbeddings)]));
+  const order = Array.from(selected).sort((a, b) => relevance.get(b)! - relevance.get(a)!);
+
+  return {
+    candidates: order.map(i => inventory[i]),
+    relevance: order.map(i => relevance.get(i)!),
+    candidatesByKeyword,
+  };
+};
+
+/**
+ * Narrow the inventory to candidates for the given keywords using MiniLM embeddings.
+ * Falls back to the full inventory when it is small or embedding fails.
+ */
+export const retrieveCandidates = async (
+  keywords: string[],
+  inventory: MasterInventoryItem[],
+  overrides: Partial<RetrievalOptions> = {},
+  signal?: AbortSignal
+): Promise<MasterInventoryItem[]> => {
+  const options = { ...DEFAULT_RETRIEVAL, ...overrides };
+  if (inventory.length < options.minInventorySize || keywords.length === 0) {
+    return inventory;
+  }
+
+  try {
+    const [keywordEmbeddings, itemEmbeddings] = await Promise.all([
+      embedTexts(keywords, signal),
+      embedTexts(inventory.map(itemSearchText), signal),
+    ]);
+    const { candidates, relevance, candidatesByKeyword } = selectCandidates(keywords, inventory, keywordEmbeddings, itemEmbeddings, options);
+
+    const meanRelevance = relevance.length > 0 ? relevance.reduce((sum, score) => sum + score, 0) / relevance.length : 0;
+    logger.log(`Retrieved ${candidates.length} of ${inventory.length} items as match candidates (mean best keyword similarity ${meanRelevance.toFixed(2)})`, '🔎');
+    logger.logData('Candidates per keyword', Object.fromEntries(
+      Object.entries(candidatesByKeyword).map(([keyword, ids]) => [keyword, ids.length])
+    ));
+
+    return candidates;
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    logger.warn(`Candidate retrieval failed, sending the full inventory: ${error instanceof Error ? error.message : error}`);
+    return inventory;
+  }
+};
@@ -0,0 +1,68 @@
+// @vitest-environment jsdom
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { embedTexts, initializeVectorClassifier, terminateClassifier } from '@/services/vectorClassifier';
+import { FakeClassifierWorker } from '@/test/fakeClassifierWorker';
+
+beforeAll(() => {
+  vi.stubGlobal('Worker', FakeClassifierWorker);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+beforeEach(async () => {
+  terminateClassifier();
+  await initializeVectorClassifier();
+});
+
+afterAll(() => {
+  terminateClassifier();
+  vi.unstubAllGlobals();
+});
+
+describe('embedTexts cancellation', () => {
+  it('rejects without messaging the worker when already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const postMessage = vi.spyOn(FakeClassifierWorker.prototype, 'postMessage');
+
+    await expect(embedTexts(['milk'], controller.signal)).rejects.toMatchObject({ name: 'AbortError' });
+    expect(postMessage).not.toHaveBeenCalled();
+    postMessage.mockRestore();
+  });
+
+  it('rejects an in-flight request on abort and clears its timeout', async () => {
+    vi.useFakeTimers();
+    const postMessage = vi.spyOn(FakeClassifierWorker.prototype, 'postMessage').mockImplementation(() => {});
+    try {
+      const controller = new AbortController();
+      const pending = embedTexts(['milk'], controller.signal);
+      await vi.waitFor(() => expect(postMessage).toHaveBeenCalled());
+      expect(vi.getTimerCount()).toBe(1);
+
+      controller.abort();
+      await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+      expect(vi.getTimerCount()).toBe(0);
+    } finally {
+      postMessage.mockRestore();
+      vi.useRealTimers();
+    }
+  });
+
+  it('keeps serving requests after one is aborted', async () => {
+    const controller = new AbortController();
+    const aborted = embedTexts(['milk'], controller.signal);
+    controller.abort();
+    await expect(aborted).rejects.toMatchObject({ name: 'AbortError' });
+
+    await expect(embedTexts(['eggs', 'bread'])).resolves.toHaveLength(2);
+  });
+
+  it('rejects pending requests when the worker is terminated', async () => {
+    const postMessage = vi.spyOn(FakeClassifierWorker.prototype, 'postMessage').mockImplementation(() => {});
+    const pending = embedTexts(['milk']);
+    await vi.waitFor(() => expect(postMessage).toHaveBeenCalled());
+    postMessage.mockRestore();
+
+    terminateClassifier();
+    await expect(pending).rejects.toThrow('Classifier worker terminated');
+  });
+});
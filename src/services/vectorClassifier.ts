@@ -1,6 +1,8 @@
 // Worker-based vector classifier
 // This module wraps the classifier web worker with a Promise-based API
 
+import { abortable, createAbortError, throwIfAborted } from '@/utils/abort';
+
 interface ClassificationResult {
   subCategory: string;
   parentCategory: string;
@@ -16,7 +18,8 @@ interface WorkerMessage {
 class ClassifierWorker {
   private worker: Worker | null = null;
   private messageId = 0;
-  private pendingRequests = new Map<string, { resolve: Function; reject: Function; timeout: NodeJS.Timeout }>();
+  // cleanup clears the request's timeout and abort listener
+  private pendingRequests = new Map<string, { resolve: Function; reject: Function; cleanup: () => void }>();
   private isReady = false;
   private initPromise: Promise<void> | null = null;
 
@@ -52,9 +55,8 @@ class ClassifierWorker {
 
           // Handle responses
           if (id && this.pendingRequests.has(id)) {
-            const { resolve: resolveRequest, reject: rejectRequest, timeout } = this.pendingRequests.get(id)!;
-            clearTimeout(timeout);
-            this.pendingRequests.delete(id);
+            const { resolve: resolveRequest, reject: rejectRequest, cleanup } = this.pendingRequests.get(id)!;
+            cleanup();
 
             if (type === 'ERROR') {
               rejectRequest(new Error(payload?.message || 'Worker error'));
@@ -78,37 +80,60 @@ class ClassifierWorker {
     return this.initPromise;
   }
 
-  private sendMessage(type: string, payload: any, timeoutMs = 30000): Promise<any> {
+  // An aborted request is rejected and forgotten at once; the worker's late reply is ignored
+  private sendMessage(type: string, payload: any, timeoutMs = 30000, signal?: AbortSignal): Promise<any> {
     return new Promise((resolve, reject) => {
       if (!this.worker) {
         reject(new Error('Worker not initialized'));
         return;
       }
+      throwIfAborted(signal); // Rejects the promise
 
       const id = `msg_${this.messageId++}`;
 
-      const timeout = setTimeout(() => {
+      const cleanup = () => {
+        clearTimeout(timeout);
+        signal?.removeEventListener('abort', onAbort);
         this.pendingRequests.delete(id);
+      };
+      const onAbort = () => {
+        cleanup();
+        reject(createAbortError());
+      };
+      const timeout = setTimeout(() => {
+        cleanup();
         reject(new Error(`Worker request timeout (${timeoutMs}ms)`));
       }, timeoutMs);
 
-      this.pendingRequests.set(id, { resolve, reject, timeout });
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.pendingRequests.set(id, { resolve, reject, cleanup });
 
       this.worker.postMessage({ type, payload, id });
     });
   }
 
-  async classifyItem(itemText: string): Promise<ClassificationResult> {
-    await this.initPromise;
-    return this.sendMessage('CLASSIFY', { text: itemText });
+  async classifyItem(itemText: string, signal?: AbortSignal): Promise<ClassificationResult> {
+    await abortable(this.initPromise ?? Promise.resolve(), signal);
+    return this.sendMessage('CLASSIFY', { text: itemText }, 30000, signal);
   }
 
-  async classifyBatch(items: string[]): Promise<ClassificationResult[]> {
-    await this.initPromise;
-    return this.sendMessage('CLASSIFY_BATCH', { items }, 60000); // Longer timeout for batch
+  async classifyBatch(items: string[], signal?: AbortSignal): Promise<ClassificationResult[]> {
+    await abortable(this.initPromise ?? Promise.resolve(), signal);
+    return this.sendMessage('CLASSIFY_BATCH', { items }, 60000, signal); // Longer timeout for batch
   }
 
+  async embedTexts(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    await abortable(this.initPromise ?? Promise.resolve(), signal);
+    return this.sendMessage('EMBED', { texts }, 60000, signal);
+  }
+
+  // Pending requests are rejected rather than left to time out
   terminate() {
+    this.pendingRequests.forEach(({ reject, cleanup }) => {
+      cleanup();
+      reject(new Error('Classifier worker terminated'));
+    });
+
     if (this.worker) {
       this.worker.terminate();
       this.worker = null;
@@ -129,18 +154,25 @@ export const initializeVectorClassifier = async (): Promise<void> => {
   await classifierInstance['initPromise'];
 };
 
-export const classifyItem = async (itemText: string): Promise<ClassificationResult> => {
+export const classifyItem = async (itemText: string, signal?: AbortSignal): Promise<ClassificationResult> => {
+  if (!classifierInstance) {
+    await abortable(initializeVectorClassifier(), signal);
+  }
+  return classifierInstance!.classifyItem(itemText, signal);
+};
+
+export const classifyBatch = async (items: string[], signal?: AbortSignal): Promise<ClassificationResult[]> => {
   if (!classifierInstance) {
-    await initializeVectorClassifier();
+    await abortable(initializeVectorClassifier(), signal);
   }
-  return classifierInstance!.classifyItem(itemText);
+  return classifierInstance!.classifyBatch(items, signal);
 };
 
-export const classifyBatch = async (items: string[]): Promise<ClassificationResult[]> => {
+export const embedTexts = async (texts: string[], signal?: AbortSignal): Promise<number[][]> => {
   if (!classifierInstance) {
-    await initializeVectorClassifier();
+    await abortable(initializeVectorClassifier(), signal);
   }
-  return classifierInstance!.classifyBatch(items);
+  return classifierInstance!.embedTexts(texts, signal);
 };
 
 export const terminateClassifier = (): void => {
@@ -0,0 +1,69 @@
+// Stand-in for classifier.worker.ts that speaks the same message protocol without loading a model
+
+const KEYWORD_CATEGORIES: [RegExp, string, string][] = [
+  [/chicken|beef|pork|turkey|salmon/i, "Poultry", "Meat & Seafood"],
+  [/chip|pretzel|popcorn/i, "Salty Snacks", "Snacks & Sweets"],
+  [/milk|cheese|yogurt|egg/i, "Milk & Cream", "Dairy & Eggs"],
+];
+
+const classify = (text: string) => {
+  const hit = KEYWORD_CATEGORIES.find(([pattern]) => pattern.test(text));
+  return hit
+    ? { subCategory: hit[1], parentCategory: hit[2], similarity: 0.8 }
+    : { subCategory: "Unknown", parentCategory: "Pantry & Dry Goods", similarity: 0 };
+};
+
+// Bag-of-words vector: texts sharing words get a high cosine similarity
+const EMBEDDING_SIZE = 64;
+const embed = (text: string): number[] => {
+  const vector = new Array(EMBEDDING_SIZE).fill(0);
+  text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean).forEach(word => {
+    let hash = 0;
+    for (const char of word) hash = (hash * 31 + char.charCodeAt(0)) % EMBEDDING_SIZE;
+    vector[hash] += 1;
+  });
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+  return vector.map(v => v / norm);
+};
+
+export class FakeClassifierWorker {
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  messages: { type: string; payload?: any; id?: string }[] = [];
+
+  constructor() {
+    setTimeout(() => this.emit({ type: "READY" }), 0);
+  }
+
+  postMessage(message: { type: string; payload?: any; id?: string }) {
+    this.messages.push(message);
+    const { type, payload, id } = message;
+
+    setTimeout(() => {
+      switch (type) {
+        case "INITIALIZE":
+          this.emit({ type: "INITIALIZE_RESPONSE", payload: { success: true }, id });
+          break;
+        case "CLASSIFY":
+          this.emit({ type: "CLASSIFY_RESPONSE", payload: classify(payload.text), id });
+          break;
+        case "CLASSIFY_BATCH":
+          this.emit({ type: "CLASSIFY_BATCH_RESPONSE", payload: payload.items.map(classify), id });
+          break;
+        case "EMBED":
+          this.emit({ type: "EMBED_RESPONSE", payload: payload.texts.map(embed), id });
+          break;
+        default:
+          this.emit({ type: "ERROR", payload: { message: `Unknown message type: ${type}` }, id });
+      }
+    }, 0);
+  }
+
+  terminate() {
+    this.onmessage = null;
+  }
+
+  private emit(data: unknown) {
+    this.onmessage?.({ data } as MessageEvent);
+  }
+}
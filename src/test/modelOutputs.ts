@@ -0,0 +1,69 @@
+// Realistic model outputs, including the malformed shapes seen from Gemma in practice
+
+export const AGENT1_FENCED = `Here are the products I found:
+
+\`\`\`json
+[
+  {"rawName": "Lay's Potato Chips", "brand": "Lay's", "price": "2/$5", "unit": "8 oz", "dealText": "", "storeName": "FreshMart", "validity": "Oct 25 - Oct 31"},
+  {"rawName": "Boneless Chicken Breast", "brand": "", "price": "$1.99/lb", "unit": "lb", "dealText": "Family Pack", "storeName": "FreshMart", "validity": "Oct 25 - Oct 31"}
+]
+\`\`\``;
+
+export const AGENT1_PROSE_WRAPPED = `Sure! I scanned the flyer. [{"rawName": "Whole Milk", "price": "$3.49", "unit": "1 gal", "storeName": "FreshMart"}] Let me know if you need anything else.`;
+
+export const AGENT1_TRUNCATED = `[
+  {"rawName": "Whole Milk", "price": "$3.49", "unit": "1 gal", "storeName": "FreshMart"},
+  {"rawName": "Large Eggs", "price": "$2.99", "unit": "12 ct", "storeName": "Fresh`;
+
+export const AGENT1_TRAILING_COMMAS = `[
+  {"rawName": "Whole Milk", "price": "$3.49", "unit": "1 gal",},
+  {"rawName": "Large Eggs", "price": "$2.99", "unit": "12 ct",},
+]`;
+
+export const AGENT2_OUTPUT = JSON.stringify([
+  {
+    storeName: "FreshMart",
+    rawName: "Lay's Potato Chips",
+    normalizedName: "Potato Chips",
+    brand: "Lay's",
+    price: "2/$5",
+    unit: "8 oz",
+    dealDescription: "2 for $5",
+    isLossLeader: false,
+    validDates: "Oct 25 - Oct 31",
+    originalPrice: "$3.49",
+  },
+  {
+    storeName: "FreshMart",
+    rawName: "Boneless Chicken Breast",
+    normalizedName: "Chicken Breast",
+    brand: "",
+    price: "$1.99/lb",
+    unit: "1 lb",
+    dealDescription: "Family Pack",
+    isLossLeader: true,
+    validDates: "Oct 25 - Oct 31",
+    originalPrice: null,
+  },
+]);
+
+export const AGENT3_OBJECT = `{"expandedKeywords": ["Chicken Breast", "Potato Chips"]}`;
+
+// Agent 3 sometimes ignores the instructions and returns a bare array
+export const AGENT3_BARE_ARRAY = `["Chicken Breast", "Potato Chips"]`;
+
+export const AGENT3_MISSING_KEY = `{"keywords": ["Chicken Breast"]}`;
+
+/**
+ * Agent 4 answers by inventory id, so the response is built from the prompt's inventory
+ */
+export const agent4Output = (prompt: string, names: string[]): string => {
+  const inventoryJson = prompt.match(/Master Store Inventory:\s*(\[[\s\S]*?\])\s*\n\s*Instructions:/);
+  const inventory: { id: string; normalizedName: string }[] = inventoryJson ? JSON.parse(inventoryJson[1]) : [];
+
+  const matches = inventory
+    .filter(item => names.includes(item.normalizedName))
+    .map(item => ({ id: item.id, itemName: item.normalizedName, dealDescription: "On sale", confidence: 0.9 }));
+
+  return JSON.stringify({ matches, summary: `Found ${matches.length} deals.` });
+};
@@ -12,6 +12,68 @@ export interface GroceryMatch {
   itemLimit?: string;
   isSale: boolean;
   confidence: number;
+  rationale?: string; // Matcher's explanation of why the deal fits the list item
+  parsedPrice?: ParsedPrice;
+  parsedOriginalPrice?: ParsedPrice;
+  measure?: Measure | null;
+  unitPrice?: UnitPrice | null;
+  sourceFile?: string;
+  sourcePage?: number;
+  sourceBox?: BoundingBox;
+  sources?: ItemSource[];
+}
+
+export type PriceKind = 'unit' | 'multi' | 'bogo' | 'per_weight' | 'percent_off' | 'unknown';
+
+export type PriceUnit = 'lb' | 'oz' | 'kg' | 'g' | 'ea';
+
+export interface ParsedPrice {
+  raw: string;
+  kind: PriceKind;
+  amount: number | null; // Printed amount (total for multi-buys)
+  quantity: number; // Items covered by `amount` (e.g. 2 for "2/$5")
+  unitPrice: number | null; // Effective price per item (or per `priceUnit`)
+  priceUnit?: PriceUnit; // Set for per-weight prices like "$3.99/lb"
+  percentOff?: number;
+  bogo?: { buy: number; get: number; discount: number }; // discount: fraction off the "get" items
+  couponRequired: boolean;
+}
+
+export type MeasureDimension = 'mass' | 'volume' | 'count';
+
+export interface Measure {
+  dimension: MeasureDimension;
+  amount: number; // Total package size in grams, millilitres or items
+  packCount: number;
+}
+
+export interface UnitPrice {
+  amount: number; // Price per standard unit
+  unit: string; // "oz", "fl oz" or "each"
+  dimension: MeasureDimension;
+}
+
+// Fractions (0-1) of the page width/height, origin at the top-left corner
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// One place an item appeared in the uploaded ads
+export interface ItemSource {
+  fileName: string;
+  pageNumber?: number;
+  box?: BoundingBox;
+}
+
+// A rendered ad page kept with the result so deals can be shown where they appeared
+export interface AdPageImage {
+  fileName: string;
+  pageNumber: number; // 1-based
+  mimeType: string;
+  data: string; // Base64 without the data URL prefix
 }
 
 export interface DealCategory {
@@ -19,10 +81,41 @@ export interface DealCategory {
   items: GroceryMatch[];
 }
 
+// A list item with no deal this week, to be bought at regular price
+export interface UnmatchedListItem {
+  keyword: string;
+  reason: string;
+}
+
+// Stages of the analysis pipeline, in order
+export type PipelineStageName = 'extracting' | 'normalizing' | 'interpreting' | 'matching';
+
+// Something that went wrong in a run that still produced a result
+export interface PipelineWarning {
+  stage: PipelineStageName;
+  message: string;
+}
+
+// A batch skipped after it kept failing, with what is needed to run just that batch again
+export interface FailedShard {
+  id: string;
+  stage: 'extracting' | 'normalizing';
+  label: string; // e.g. "weekly-ad.pdf page 3" or "Batch 2 of 5"
+  error: string;
+  pages?: { fileName: string; pageNumber: number; tileIndex: number }[]; // Agent 1: page tiles to scan again
+  items?: RawExtractedItem[]; // Agent 2: raw items to normalize again
+}
+
 export interface AnalysisResult {
   matches: GroceryMatch[];
+  unmatched?: UnmatchedListItem[]; // Missing on runs saved before unmatched items were reported
+  alternatives?: Record<string, GroceryMatch[]>; // Keyword -> similar unmatched inventory items
   categorizedDeals: DealCategory[];
   summary: string;
+  inventory: MasterInventoryItem[];
+  pages?: AdPageImage[]; // Only on runs scanned this session; not saved to history
+  warnings?: PipelineWarning[]; // Errors the run recovered from
+  failedShards?: FailedShard[]; // Batches that can be retried
 }
 
 export interface UploadedFile {
@@ -41,6 +134,9 @@ export interface RawExtractedItem {
   dealText?: string;
   storeName?: string;
   validity?: string;
+  sourceFile?: string; // Uploaded file the item was extracted from
+  sourcePage?: number; // 1-based page within that file
+  sourceBox?: BoundingBox; // Product tile on that page
 }
 
 export interface MasterInventoryItem {
@@ -60,4 +156,51 @@ export interface MasterInventoryItem {
   productName?: string; // Alias for normalizedName for compatibility
   itemName?: string; // For compatibility
   isSale?: boolean; // For compatibility
-}
\ No newline at end of file
+  parsedPrice: ParsedPrice;
+  parsedOriginalPrice?: ParsedPrice;
+  measure: Measure | null; // Parsed from `unit`
+  unitPrice: UnitPrice | null; // Price per oz / fl oz / each
+  sourceFile?: string; // Uploaded file the item was extracted from
+  sourcePage?: number; // 1-based page within that file
+  sourceBox?: BoundingBox; // Product tile on that page
+  sources?: ItemSource[]; // Every listing merged into this item (duplicates across pages/files)
+}
+
+// --- History Types ---
+
+export interface AnalysisRunRecord {
+  id: string;
+  createdAt: string; // ISO timestamp
+  groceryList: string;
+  fileNames: string[];
+  storeNames: string[];
+  weekKeys: string[]; // Sunday-start weeks (YYYY-MM-DD) covered by the ads
+  itemCount: number;
+  result: AnalysisResult;
+}
+
+export interface StoreWeekInventory {
+  storeName: string;
+  weekKey: string;
+  validDates?: string;
+  runId: string; // Run that last wrote this store/week
+  savedAt: string;
+  items: MasterInventoryItem[];
+}
+
+export interface PriceHistoryPoint {
+  weekKey: string;
+  storeName: string;
+  price: number; // Effective price per item (or per weight unit)
+  regularPrice: number | null;
+}
+
+export interface DealScore {
+  score: number | null; // 0-100, null when there is nothing to compare against
+  label: 'Great' | 'Good' | 'Fair' | 'Poor' | 'New';
+  currentPrice: number;
+  historicalLow: number | null;
+  medianPrice: number | null;
+  typicalRegular: number | null;
+  points: PriceHistoryPoint[]; // Past prices, excluding the current listing
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { abortable, createAbortError, isAbortError, throwIfAborted } from '@/utils/abort';
+
+describe('isAbortError', () => {
+    it('recognizes our, fetch and DOM abort errors', () => {
+        expect(isAbortError(createAbortError())).toBe(true);
+        expect(isAbortError(new DOMException('Aborted', 'AbortError'))).toBe(true);
+        expect(isAbortError(new Error('429 Too Many Requests'))).toBe(false);
+        expect(isAbortError('AbortError')).toBe(false);
+    });
+});
+
+describe('throwIfAborted', () => {
+    it('throws only once the signal is aborted', () => {
+        const controller = new AbortController();
+        expect(() => throwIfAborted(controller.signal)).not.toThrow();
+        expect(() => throwIfAborted(undefined)).not.toThrow();
+
+        controller.abort();
+        expect(() => throwIfAborted(controller.signal)).toThrow(expect.objectContaining({ name: 'AbortError' }));
+    });
+
+    it('wraps a non-abort reason in an AbortError', () => {
+        const controller = new AbortController();
+        controller.abort('files changed');
+        expect(() => throwIfAborted(controller.signal)).toThrow(expect.objectContaining({ name: 'AbortError' }));
+    });
+});
+
+describe('abortable', () => {
+    it('settles with the promise when not aborted', async () => {
+        await expect(abortable(Promise.resolve(3), new AbortController().signal)).resolves.toBe(3);
+    });
+
+    it('rejects as soon as the signal aborts', async () => {
+        const controller = new AbortController();
+        const pending = abortable(new Promise(() => {}), controller.signal);
+        controller.abort();
+        await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    });
+});
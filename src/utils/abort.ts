@@ -0,0 +1,81 @@
+/**
+ * Cancellation helpers for AbortSignal-aware pipeline steps
+ */
+
+export const CANCELLED_MESSAGE = 'Analysis cancelled';
+
+/**
+ * Error thrown when a run is cancelled; named "AbortError" like fetch and the Gemini SDK use
+ */
+export function createAbortError(message: string = CANCELLED_MESSAGE): Error {
+    const error = new Error(message);
+    error.name = 'AbortError';
+    return error;
+}
+
+/**
+ * Whether an error came from cancelling a run (ours, fetch's or the SDK's), rather than a real failure
+ */
+export function isAbortError(error: unknown): boolean {
+    return typeof error === 'object' && error !== null && (error as { name?: unknown }).name === 'AbortError';
+}
+
+// Controllers aborted without a reason get a DOMException AbortError; anything else is wrapped
+const abortReason = (signal: AbortSignal): Error =>
+    isAbortError(signal.reason) ? signal.reason : createAbortError();
+
+/**
+ * Throw an AbortError if the signal has already been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+        throw abortReason(signal);
+    }
+}
+
+/**
+ * Settle with the promise, or reject as soon as the signal aborts.
+ * The underlying work is not stopped; use this for steps that cannot be cancelled themselves.
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) return promise;
+
+    return new Promise<T>((resolve, reject) => {
+        if (signal.aborted) {
+            reject(abortReason(signal));
+            return;
+        }
+
+        const onAbort = () => reject(abortReason(signal));
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(
+            value => {
+                signal.removeEventListener('abort', onAbort);
+                resolve(value);
+            },
+            error => {
+                signal.removeEventListener('abort', onAbort);
+                reject(error);
+            }
+        );
+    });
+}
+
+/**
+ * Wait `ms` milliseconds, rejecting (and clearing the timer) if the signal aborts first
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+        throwIfAborted(signal); // Rejects the promise
+
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(abortReason(signal!));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { boxToStyle, parseBoundingBox } from '@/utils/boundingBox';
+
+describe('parseBoundingBox', () => {
+    it('converts [ymin, xmin, ymax, xmax] on a 0-1000 grid to page fractions', () => {
+        expect(parseBoundingBox([100, 250, 300, 500])).toEqual({ x: 0.25, y: 0.1, width: 0.25, height: 0.2 });
+    });
+
+    it('normalizes swapped corners and clamps to the page', () => {
+        expect(parseBoundingBox([300, 500, 100, 1200])).toEqual({ x: 0.5, y: 0.1, width: 0.5, height: 0.2 });
+    });
+
+    it('rejects missing, malformed and zero-area boxes', () => {
+        expect(parseBoundingBox(undefined)).toBeUndefined();
+        expect(parseBoundingBox([1, 2, 3])).toBeUndefined();
+        expect(parseBoundingBox([100, 100, 100, 400])).toBeUndefined();
+        expect(parseBoundingBox([0, 0, NaN, 10])).toBeUndefined();
+    });
+});
+
+describe('boxToStyle', () => {
+    it('positions the box with percentages', () => {
+        expect(boxToStyle({ x: 0.25, y: 0.1, width: 0.5, height: 0.2 }))
+            .toEqual({ left: '25%', top: '10%', width: '50%', height: '20%' });
+    });
+});
@@ -0,0 +1,41 @@
+/**
+ * Bounding box helpers for locating products on ad pages
+ */
+
+import { BoundingBox } from '../types';
+
+// Vision models report boxes as [ymin, xmin, ymax, xmax] on a 0-1000 grid
+const BOX_SCALE = 1000;
+
+const clamp = (value: number) => Math.min(Math.max(value, 0), BOX_SCALE);
+
+/**
+ * Convert a model-reported [ymin, xmin, ymax, xmax] box (0-1000) to page fractions
+ * @param box - Raw box from the model
+ * @returns The box, or undefined when it is missing or degenerate
+ */
+export const parseBoundingBox = (box: number[] | undefined | null): BoundingBox | undefined => {
+    if (!box || box.length !== 4 || box.some(v => !Number.isFinite(v))) return undefined;
+
+    const [ymin, xmin, ymax, xmax] = box.map(clamp);
+    const width = Math.abs(xmax - xmin);
+    const height = Math.abs(ymax - ymin);
+    if (width === 0 || height === 0) return undefined;
+
+    return {
+        x: Math.min(xmin, xmax) / BOX_SCALE,
+        y: Math.min(ymin, ymax) / BOX_SCALE,
+        width: width / BOX_SCALE,
+        height: height / BOX_SCALE,
+    };
+};
+
+/**
+ * Position a box over an element as CSS percentages
+ */
+export const boxToStyle = (box: BoundingBox) => ({
+    left: `${box.x * 100}%`,
+    top: `${box.y * 100}%`,
+    width: `${box.width * 100}%`,
+    height: `${box.height * 100}%`,
+});
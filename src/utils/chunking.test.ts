@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import {
+    calculateAverageSimilarity,
+    calculateMaxSimilarity,
+    cosineSimilarity,
+    createProgressTracker,
+    createShards,
+} from '@/utils/chunking';
+
+describe('createShards', () => {
+    it('splits items into shards of the given size with a smaller remainder', () => {
+        expect(createShards([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+    });
+
+    it('returns no shards for an empty array', () => {
+        expect(createShards([], 20)).toEqual([]);
+    });
+
+    it('returns a single shard when items fit', () => {
+        expect(createShards(['a', 'b'], 20)).toEqual([['a', 'b']]);
+    });
+});
+
+describe('createProgressTracker', () => {
+    it('tracks progress and percentage', () => {
+        const tracker = createProgressTracker(4);
+        tracker.increment();
+        expect(tracker.current).toBe(1);
+        expect(tracker.percentage).toBe(25);
+        expect(tracker.getStatus('Agent 2:')).toBe('Agent 2: Batch 1 of 4...');
+    });
+
+    it('reports 0% when there is nothing to process', () => {
+        expect(createProgressTracker(0).percentage).toBe(0);
+    });
+});
+
+describe('similarity helpers', () => {
+    it('computes cosine similarity', () => {
+        expect(cosineSimilarity([1, 0], [1, 0])).toBeCloseTo(1);
+        expect(cosineSimilarity([1, 0], [0, 1])).toBeCloseTo(0);
+        expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+    });
+
+    it('throws on mismatched dimensions', () => {
+        expect(() => cosineSimilarity([1], [1, 2])).toThrow('Vectors must have the same length');
+    });
+
+    it('computes max and average similarity against keywords', () => {
+        const keywords = [[1, 0], [0, 1]];
+        expect(calculateMaxSimilarity([1, 0], keywords)).toBeCloseTo(1);
+        expect(calculateAverageSimilarity([1, 0], keywords)).toBeCloseTo(0.5);
+        expect(calculateMaxSimilarity([1, 0], [])).toBe(0);
+    });
+});
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, toCsv } from '@/utils/csv';
+
+describe('toCsv', () => {
+    it('quotes only fields with commas, quotes, line breaks or edge spaces', () => {
+        expect(toCsv([
+            ['name', 'price'],
+            ["Lay's Chips, Party Size", '2/$5'],
+            ['12" Pizza', ' $7.99'],
+        ])).toBe('name,price\r\n"Lay\'s Chips, Party Size",2/$5\r\n"12"" Pizza"," $7.99"\r\n');
+    });
+});
+
+describe('parseCsv', () => {
+    it('reads back what toCsv writes', () => {
+        const rows = [['a', 'b,c', 'say "hi"'], ['multi\nline', '', ' padded ']];
+        expect(parseCsv(toCsv(rows))).toEqual(rows);
+    });
+
+    it('accepts LF line endings, a BOM, blank lines and a missing final newline', () => {
+        expect(parseCsv('\uFEFFname,price\n\nMilk,$3.49\nEggs,$2.99')).toEqual([
+            ['name', 'price'],
+            ['Milk', '$3.49'],
+            ['Eggs', '$2.99'],
+        ]);
+    });
+
+    it('keeps empty trailing fields', () => {
+        expect(parseCsv('a,,\r\n')).toEqual([['a', '', '']]);
+    });
+
+    it('rejects an unclosed quoted field', () => {
+        expect(() => parseCsv('a,"never closed\n')).toThrow(/never closed/);
+    });
+});
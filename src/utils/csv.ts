@@ -0,0 +1,79 @@
+/**
+ * CSV helpers (RFC 4180: comma-separated, double-quoted fields, "" escapes a quote)
+ */
+
+const needsQuoting = (field: string): boolean => /[",\r\n]/.test(field) || field !== field.trim();
+
+/**
+ * Serialize rows as CSV, quoting only the fields that need it; lines end with CRLF as spreadsheets expect
+ */
+export function toCsv(rows: string[][]): string {
+    return rows
+        .map(row => row
+            .map(field => (needsQuoting(field) ? `"${field.replace(/"/g, '""')}"` : field))
+            .join(','))
+        .join('\r\n') + '\r\n';
+}
+
+/**
+ * Parse CSV text into rows of fields.
+ * Handles quoted fields with commas, quotes and line breaks, CRLF or LF line endings, a UTF-8 BOM
+ * and a trailing newline; blank lines are skipped.
+ * @throws Error if a quoted field is never closed
+ */
+export function parseCsv(text: string): string[][] {
+    const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let i = 0;
+
+    const endRow = () => {
+        row.push(field);
+        if (row.length > 1 || row[0] !== '') rows.push(row);
+        row = [];
+        field = '';
+    };
+
+    while (i < input.length) {
+        const char = input[i];
+
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                field += '"';
+                i += 2;
+                continue;
+            }
+            if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+            i++;
+            continue;
+        }
+
+        if (char === '"' && field === '') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\r' && input[i + 1] === '\n') {
+            endRow();
+            i++;
+        } else if (char === '\n' || char === '\r') {
+            endRow();
+        } else {
+            field += char;
+        }
+        i++;
+    }
+
+    if (inQuotes) {
+        throw new Error('Invalid CSV: a quoted field is never closed');
+    }
+    if (field !== '' || row.length > 0) endRow();
+
+    return rows;
+}
@@ -0,0 +1,17 @@
+/**
+ * Content hashing helpers (SHA-256 via Web Crypto)
+ */
+
+const toHex = (buffer: ArrayBuffer): string =>
+    Array.from(new Uint8Array(buffer))
+        .map(byte => byte.toString(16).padStart(2, '0'))
+        .join('');
+
+/**
+ * SHA-256 digest of a string or binary buffer as a lowercase hex string
+ */
+export async function sha256Hex(input: string | ArrayBuffer | Uint8Array): Promise<string> {
+    const data = typeof input === 'string' ? new TextEncoder().encode(input) : input;
+    const digest = await crypto.subtle.digest('SHA-256', data as BufferSource);
+    return toHex(digest);
+}
@@ -0,0 +1,68 @@
+/**
+ * Minimal Promise wrappers around the IndexedDB API
+ */
+
+export type UpgradeHandler = (db: IDBDatabase, oldVersion: number) => void;
+
+/**
+ * Open (and upgrade if needed) an IndexedDB database
+ * @param name - Database name
+ * @param version - Schema version
+ * @param onUpgrade - Creates object stores and indexes when the version changes
+ */
+export function openDatabase(name: string, version: number, onUpgrade: UpgradeHandler): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not available in this environment'));
+            return;
+        }
+
+        const request = indexedDB.open(name, version);
+        request.onupgradeneeded = (event) => onUpgrade(request.result, event.oldVersion);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new Error(`Database "${name}" is blocked by another open connection`));
+    });
+}
+
+/**
+ * Resolve an IDBRequest as a Promise
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Run a callback inside a transaction and resolve once the transaction commits
+ * @param db - Open database
+ * @param storeNames - Object stores the transaction spans
+ * @param mode - Transaction mode
+ * @param callback - Receives the transaction; its return value is resolved after commit
+ */
+export function withTransaction<T>(
+    db: IDBDatabase,
+    storeNames: string | string[],
+    mode: IDBTransactionMode,
+    callback: (tx: IDBTransaction) => T | Promise<T>
+): Promise<T> {
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(storeNames, mode);
+        let result: T;
+
+        tx.oncomplete = () => resolve(result);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+
+        Promise.resolve(callback(tx))
+            .then(value => {
+                result = value;
+            })
+            .catch(error => {
+                tx.abort();
+                reject(error);
+            });
+    });
+}
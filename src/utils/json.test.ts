@@ -0,0 +1,112 @@
+import { describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { cleanJson, repairJson, safeParseWithZod } from '@/utils/json';
+import { Agent1ResponseSchema, Agent3ResponseSchema, Agent4ResponseSchema } from '@/schemas';
+import {
+    AGENT1_FENCED,
+    AGENT1_PROSE_WRAPPED,
+    AGENT1_TRAILING_COMMAS,
+    AGENT1_TRUNCATED,
+    AGENT3_MISSING_KEY,
+} from '@/test/modelOutputs';
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+vi.spyOn(console, 'error').mockImplementation(() => {});
+
+describe('cleanJson', () => {
+    it('returns an empty array for empty input', () => {
+        expect(cleanJson('')).toBe('[]');
+    });
+
+    it('extracts JSON from a markdown code fence', () => {
+        expect(JSON.parse(cleanJson(AGENT1_FENCED))).toHaveLength(2);
+    });
+
+    it('extracts an array wrapped in prose', () => {
+        expect(cleanJson(AGENT1_PROSE_WRAPPED)).toMatch(/^\[.*\]$/s);
+    });
+
+    it('keeps an object intact when it contains arrays', () => {
+        const text = 'Result: {"matches": [{"id": "1", "itemName": "Milk"}], "summary": "ok"}';
+        expect(JSON.parse(cleanJson(text))).toEqual({ matches: [{ id: '1', itemName: 'Milk' }], summary: 'ok' });
+    });
+
+    it('returns plain text unchanged when no JSON is present', () => {
+        expect(cleanJson('  no deals here  ')).toBe('no deals here');
+    });
+});
+
+describe('repairJson', () => {
+    it('strips comments', () => {
+        expect(JSON.parse(repairJson('[1, // first\n 2 /* second */]'))).toEqual([1, 2]);
+    });
+
+    it('converts single-quoted strings', () => {
+        expect(JSON.parse(repairJson("{'name': 'Bob\\'s \"Best\" Chips'}"))).toEqual({ name: 'Bob\'s "Best" Chips' });
+    });
+
+    it('quotes bare keys', () => {
+        expect(JSON.parse(repairJson('{rawName: "Eggs", price: "$2.99"}'))).toEqual({ rawName: 'Eggs', price: '$2.99' });
+    });
+
+    it('leaves colons and commas inside strings alone', () => {
+        const text = '{"dealText": "Buy 2, get 1: free,}"}';
+        expect(JSON.parse(repairJson(text))).toEqual({ dealText: 'Buy 2, get 1: free,}' });
+    });
+
+    it('closes truncated arrays of strings', () => {
+        expect(JSON.parse(repairJson('["Milk", "Eggs", "Bre'))).toEqual(['Milk', 'Eggs']);
+    });
+});
+
+// Validated data of a response that is expected to parse
+const parsedData = <T>(text: string, schema: z.ZodType<T>): T => {
+    const outcome = safeParseWithZod(text, schema);
+    if (!outcome.success) throw new Error(outcome.error);
+    return outcome.data;
+};
+
+describe('safeParseWithZod', () => {
+    it('applies schema defaults to missing fields', () => {
+        const items = parsedData(AGENT1_PROSE_WRAPPED, Agent1ResponseSchema);
+        expect(items[0]).toMatchObject({ rawName: 'Whole Milk', brand: '', dealText: '', validity: '' });
+    });
+
+    it('unwraps arrays returned inside an object by JSON-mode endpoints', () => {
+        const text = JSON.stringify({ items: [{ rawName: 'Eggs', price: '$2.99' }] });
+        expect(parsedData(text, Agent1ResponseSchema)).toHaveLength(1);
+    });
+
+    it('fills the Agent 4 summary default', () => {
+        expect(parsedData('{"matches": []}', Agent4ResponseSchema).summary).toBe('Here are the best deals found for your list.');
+    });
+
+    it('keeps the complete items of truncated JSON', () => {
+        const items = parsedData(AGENT1_TRUNCATED, Agent1ResponseSchema);
+        expect(items[0]).toMatchObject({ rawName: 'Whole Milk', storeName: 'FreshMart' });
+        // The cut-off field is dropped rather than kept half-written
+        expect(items[1]).toMatchObject({ rawName: 'Large Eggs', unit: '12 ct', storeName: 'Unknown Store' });
+    });
+
+    it('accepts trailing commas', () => {
+        expect(parsedData(AGENT1_TRAILING_COMMAS, Agent1ResponseSchema).map(item => item.rawName)).toEqual(['Whole Milk', 'Large Eggs']);
+    });
+
+    it('drops invalid array elements and keeps the valid ones', () => {
+        const text = JSON.stringify([{ rawName: 'Eggs', price: '$2.99' }, { rawName: 42 }]);
+        const outcome = safeParseWithZod(text, Agent1ResponseSchema);
+        expect(outcome).toMatchObject({ success: true, droppedItems: 1 });
+        expect(outcome.success && outcome.data).toHaveLength(1);
+    });
+
+    it('reports whether the JSON needed repair', () => {
+        const outcome = safeParseWithZod(AGENT1_TRAILING_COMMAS, Agent1ResponseSchema);
+        expect(outcome).toMatchObject({ success: true, repaired: true });
+    });
+
+    it('returns the validation error instead of throwing', () => {
+        const outcome = safeParseWithZod(AGENT3_MISSING_KEY, Agent3ResponseSchema);
+        expect(outcome.success).toBe(false);
+        expect(!outcome.success && outcome.error).toMatch(/expandedKeywords/);
+    });
+});
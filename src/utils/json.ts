@@ -0,0 +1,244 @@
+/**
+ * JSON extraction, repair and validation helpers for model responses
+ */
+
+import { z } from 'zod';
+
+export type ParseOutcome<T> =
+    | { success: true; data: T; repaired: boolean; droppedItems: number }
+    | { success: false; error: string };
+
+const OPENERS: Record<string, string> = { '{': '}', '[': ']' };
+
+/**
+ * Extract the JSON payload from a model response
+ * Handles markdown code fences (including unterminated ones) and JSON wrapped in prose.
+ * The first object or array is returned up to its matching bracket, or to the end of the
+ * text when it was truncated.
+ * @param text - Raw model output
+ * @returns The JSON substring (not yet parsed)
+ */
+export const cleanJson = (text: string) => {
+    if (!text) return "[]";
+
+    // Try to find JSON in markdown code blocks first
+    let source = text;
+    const codeBlockMatch = text.match(/```(?:json)?\s*\n?([\s\S]*?)(?:\n?```|$)/);
+    if (codeBlockMatch && /[[{]/.test(codeBlockMatch[1])) {
+        source = codeBlockMatch[1];
+    }
+
+    const start = source.search(/[[{]/);
+    if (start === -1) {
+        // If no JSON start found, return the trimmed text as-is
+        return source.trim();
+    }
+
+    // Walk to the bracket that closes the first value, ignoring brackets inside strings
+    const stack: string[] = [];
+    let inString: string | null = null;
+    for (let i = start; i < source.length; i++) {
+        const char = source[i];
+        if (inString) {
+            if (char === '\\') i++;
+            else if (char === inString) inString = null;
+            continue;
+        }
+        if (char === '"' || char === "'") {
+            inString = char;
+        } else if (OPENERS[char]) {
+            stack.push(OPENERS[char]);
+        } else if (char === stack[stack.length - 1]) {
+            stack.pop();
+            if (stack.length === 0) return source.slice(start, i + 1).trim();
+        }
+    }
+
+    return source.slice(start).trim();
+};
+
+/**
+ * Normalize JSON-ish model output into strict JSON:
+ * strips comments, converts single-quoted strings, quotes bare keys,
+ * removes trailing commas and closes truncated output after its last complete value
+ * @param text - Extracted JSON candidate (see cleanJson)
+ * @returns Repaired JSON text (may still be invalid if the input is beyond repair)
+ */
+export const repairJson = (text: string): string => {
+    let out = '';
+    let inString = false;
+    let quote = '"';
+
+    // Last non-whitespace character written outside a string
+    const lastSignificant = (): string => {
+        for (let j = out.length - 1; j >= 0; j--) {
+            if (!/\s/.test(out[j])) return out[j];
+        }
+        return '';
+    };
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (inString) {
+            if (char === '\\') {
+                // \' is not a valid JSON escape
+                out += text[i + 1] === "'" ? "'" : char + (text[i + 1] ?? '');
+                i++;
+            } else if (char === quote) {
+                out += '"';
+                inString = false;
+            } else if (char === '"' && quote === "'") {
+                out += '\\"';
+            } else if (char === '\n') {
+                out += '\\n';
+            } else {
+                out += char;
+            }
+            continue;
+        }
+
+        // Comments
+        if (char === '/' && text[i + 1] === '/') {
+            while (i < text.length && text[i] !== '\n') i++;
+            out += '\n';
+            continue;
+        }
+        if (char === '/' && text[i + 1] === '*') {
+            const end = text.indexOf('*/', i + 2);
+            i = end === -1 ? text.length : end + 1;
+            continue;
+        }
+
+        // Single-quoted strings become double-quoted
+        if (char === '"' || char === "'") {
+            inString = true;
+            quote = char;
+            out += '"';
+            continue;
+        }
+
+        // Trailing commas: [1, 2,] -> [1, 2]
+        if (char === '}' || char === ']') {
+            if (lastSignificant() === ',') {
+                out = out.slice(0, out.lastIndexOf(','));
+            }
+            out += char;
+            continue;
+        }
+
+        // Bare object keys: {name: "x"} -> {"name": "x"}
+        if (/[A-Za-z_$]/.test(char) && (lastSignificant() === '{' || lastSignificant() === ',')) {
+            const bareKey = text.slice(i, i + 64).match(/^([A-Za-z_$][\w$]*)\s*:/);
+            if (bareKey) {
+                out += `"${bareKey[1]}"`;
+                i += bareKey[1].length - 1;
+                continue;
+            }
+        }
+
+        out += char;
+    }
+
+    return closeTruncated(out);
+};
+
+/**
+ * Cut truncated JSON back to the last complete value and close any open containers
+ */
+const closeTruncated = (text: string): string => {
+    const stack: string[] = [];
+    let inString = false;
+    // Last position where the text could be cut and closed cleanly, with the stack at that point
+    let safeEnd = 0;
+    let safeStack: string[] = [];
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inString) {
+            if (char === '\\') i++;
+            else if (char === '"') {
+                inString = false;
+                // A complete string inside an array is a complete element
+                if (stack[stack.length - 1] === ']') {
+                    safeEnd = i + 1;
+                    safeStack = [...stack];
+                }
+            }
+            continue;
+        }
+
+        if (char === '"') {
+            inString = true;
+        } else if (OPENERS[char]) {
+            stack.push(OPENERS[char]);
+        } else if (char === '}' || char === ']') {
+            stack.pop();
+            safeEnd = i + 1;
+            safeStack = [...stack];
+        } else if (char === ',' && stack.length > 0) {
+            safeEnd = i;
+            safeStack = [...stack];
+        }
+    }
+
+    if (stack.length === 0 && !inString) return text;
+
+    const cut = text.slice(0, safeEnd).replace(/,\s*$/, '');
+    return cut + safeStack.reverse().join('');
+};
+
+/**
+ * Parse JSON, falling back to repairJson when strict parsing fails
+ */
+const parseLenient = (text: string): { value: unknown; repaired: boolean } => {
+    try {
+        return { value: JSON.parse(text), repaired: false };
+    } catch {
+        return { value: JSON.parse(repairJson(text)), repaired: true };
+    }
+};
+
+/**
+ * Parse a model response and validate it with a Zod schema, without throwing.
+ * For array schemas, elements that fail validation are dropped and the valid ones kept.
+ * @param rawText - Raw model output
+ * @param schema - Zod schema describing the expected payload
+ * @returns Validated data, or the parse/validation error message
+ */
+export const safeParseWithZod = <T>(rawText: string, schema: z.ZodType<T>): ParseOutcome<T> => {
+    let parsed: unknown;
+    let repaired: boolean;
+    try {
+        ({ value: parsed, repaired } = parseLenient(cleanJson(rawText)));
+    } catch (error) {
+        return { success: false, error: `Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}` };
+    }
+
+    // JSON-mode endpoints can only return objects, so arrays may arrive wrapped (e.g. {"items": [...]})
+    if (schema instanceof z.ZodArray && parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        const wrappedArray = Object.values(parsed).find(Array.isArray);
+        if (wrappedArray) parsed = wrappedArray;
+    }
+
+    // Use Zod to validate and coerce the response
+    const result = schema.safeParse(parsed);
+    if (result.success) {
+        return { success: true, data: result.data, repaired, droppedItems: 0 };
+    }
+
+    // Salvage the valid elements of a partially valid array
+    if (schema instanceof z.ZodArray && Array.isArray(parsed)) {
+        const element = schema.element as z.ZodType;
+        const valid = parsed
+            .map(item => element.safeParse(item))
+            .filter(r => r.success)
+            .map(r => r.data);
+
+        if (valid.length > 0) {
+            return { success: true, data: valid as T, repaired, droppedItems: parsed.length - valid.length };
+        }
+    }
+
+    return { success: false, error: z.prettifyError(result.error) };
+};
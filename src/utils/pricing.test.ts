@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { compareByPrice, computeSavings, effectiveUnitPrice, parsePrice } from '@/utils/pricing';
+
+describe('parsePrice', () => {
+    it.each([
+        ['$2.99', 'unit', 2.99],
+        ['99¢', 'unit', 0.99],
+        ['2/$5', 'multi', 2.5],
+        ['2 for $5', 'multi', 2.5],
+        ['10 for $10', 'multi', 1],
+        ['$3.99/lb', 'per_weight', 3.99],
+        ['3.99 per pound', 'per_weight', 3.99],
+        ['$3.99 lb.', 'per_weight', 3.99],
+        ['$1.29 ea', 'unit', 1.29],
+        ['$2.99 12 oz', 'unit', 2.99],
+        ['$4.49 2 lb bag', 'unit', 4.49],
+        ['$5.99/2 lb', 'unit', 5.99],
+        ['3 lbs/$5', 'unit', 5],
+        ['2 lb for $4', 'unit', 4],
+        ['$2.99 $1 off', 'unit', 2.99],
+        ['$1 off', 'unknown', null],
+        ['Save $2', 'unknown', null],
+        ['$4.99 BOGO', 'bogo', 2.5],
+        ['BOGO', 'bogo', null],
+        ['20% off', 'percent_off', null],
+        ['See store', 'unknown', null],
+        ['', 'unknown', null],
+    ])('parses "%s" as %s', (raw, kind, unitPrice) => {
+        const parsed = parsePrice(raw);
+        expect(parsed.kind).toBe(kind);
+        expect(parsed.unitPrice).toBe(unitPrice);
+    });
+
+    it('records the weight unit of per-weight prices', () => {
+        expect(parsePrice('$3.99/lb').priceUnit).toBe('lb');
+    });
+
+    it('leaves a package size printed next to the price to parseMeasure', () => {
+        const parsed = parsePrice('$2.99 12 oz');
+        expect(parsed.priceUnit).toBeUndefined();
+        expect(parsed.amount).toBe(2.99);
+    });
+
+    it('reads buy/get terms from the deal text', () => {
+        const parsed = parsePrice('$3.00', 'Buy 2 Get 1 Free');
+        expect(parsed.kind).toBe('bogo');
+        expect(parsed.bogo).toEqual({ buy: 2, get: 1, discount: 1 });
+        expect(parsed.unitPrice).toBe(2);
+    });
+
+    it('detects coupon requirements', () => {
+        expect(parsePrice('$1.99', 'With digital coupon').couponRequired).toBe(true);
+        expect(parsePrice('$1.99').couponRequired).toBe(false);
+    });
+});
+
+describe('savings', () => {
+    it('computes savings for multi-buy deals', () => {
+        expect(computeSavings({ price: '2/$5', originalPrice: '$3.49' })).toBe(0.99);
+    });
+
+    it('derives the BOGO price from the regular price', () => {
+        expect(effectiveUnitPrice({ price: 'BOGO', originalPrice: '$4.00' })).toBe(2);
+        expect(computeSavings({ price: 'BOGO', originalPrice: '$4.00' })).toBe(2);
+    });
+
+    it('ignores a regular price lower than the sale price', () => {
+        expect(computeSavings({ price: '$5.00', originalPrice: '$4.00' })).toBeNull();
+    });
+
+    it('sorts unknown prices last', () => {
+        const items = [{ price: 'See store' }, { price: '$3.00' }, { price: '2/$3' }];
+        expect(items.sort(compareByPrice).map(i => i.price)).toEqual(['2/$3', '$3.00', 'See store']);
+    });
+});
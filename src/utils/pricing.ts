@@ -0,0 +1,246 @@
+/**
+ * Price parsing utilities
+ * Turns free-text flyer prices ("2/$5", "BOGO", "$3.99/lb") into a typed structure
+ */
+
+import { ParsedPrice, PriceUnit } from '@/types';
+
+interface PricedItem {
+    price: string;
+    originalPrice?: string | null;
+    dealDescription?: string;
+    parsedPrice?: ParsedPrice;
+    parsedOriginalPrice?: ParsedPrice;
+}
+
+const WEIGHT_UNITS: Record<string, PriceUnit> = {
+    lb: 'lb',
+    lbs: 'lb',
+    pound: 'lb',
+    oz: 'oz',
+    ounce: 'oz',
+    kg: 'kg',
+    g: 'g',
+    gram: 'g',
+    ea: 'ea',
+    each: 'ea',
+};
+
+const COUPON_PATTERN = /(coupon|clip|digital|w\/\s*card|with card|loyalty|member price|mfr)/i;
+
+// Units a price can be quoted in, or a package measured in
+const WEIGHT_UNIT = 'lbs?|pound|oz|ounce|kg|g|gram';
+const UNIT = `${WEIGHT_UNIT}|ea|each`;
+
+// "3 lbs/$5", "2 lb for $4": the package size comes first and the price covers the whole package
+const SIZE_THEN_PRICE_PATTERN = new RegExp(`^\\d+(?:\\.\\d+)?\\s*(?:${WEIGHT_UNIT})\\b\\.?\\s*(?:for|\\/)\\s*\\$?\\s*(\\d+(?:\\.\\d+)?)`);
+
+// "/lb", "/2 lb": a rate or a package size after the slash, never a multi-buy
+const SLASH_UNIT_PATTERN = new RegExp(`\\/\\s*(?:\\d+(?:\\.\\d+)?\\s*)?(?:${UNIT})\\b`);
+
+// "/lb", "per pound", or a unit right after the price ("$1.29 ea", "$3.99 lb.")
+const RATE_PATTERN = new RegExp(`(?:\\/|\\bper\\s+)\\s*(${UNIT})\\b`);
+const PRICE_THEN_UNIT_PATTERN = new RegExp(`^\\$?\\s*\\d+(?:\\.\\d+)?\\s*(?:¢\\s*)?(${UNIT})\\b`);
+
+// "$1 off", "Save $2": a discount, not a price
+const AMOUNT_OFF_PATTERN = /\$\s*\d+(?:\.\d+)?\s*off\b|\d+(?:\.\d+)?\s*(?:¢|c\b|cents?)\s*off\b|\bsave\s*\$\s*\d+(?:\.\d+)?/g;
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Parse a dollar or cent amount ("$2.99", "2.99", "99¢")
+ */
+const parseAmount = (text: string): number | null => {
+    const cents = text.match(/(\d+)\s*(?:¢|c\b|cents?)/);
+    if (cents && !text.includes('$')) return parseInt(cents[1], 10) / 100;
+
+    const dollars = text.match(/\$?\s*(\d+(?:\.\d+)?)/);
+    return dollars ? parseFloat(dollars[1]) : null;
+};
+
+/**
+ * Parse a flyer price string into a structured price
+ * @param raw - Price text as printed in the ad
+ * @param context - Optional deal text used to detect coupon requirements and BOGO terms
+ * @returns Parsed price; `unitPrice` is null when no single-item price can be derived
+ */
+export function parsePrice(raw: string | null | undefined, context?: string): ParsedPrice {
+    const text = (raw || '').trim();
+    const clean = text.toLowerCase().replace(/,/g, '');
+    const fullText = `${clean} ${(context || '').toLowerCase()}`;
+    const couponRequired = COUPON_PATTERN.test(fullText);
+
+    const base: ParsedPrice = {
+        raw: text,
+        kind: 'unknown',
+        amount: null,
+        quantity: 1,
+        unitPrice: null,
+        couponRequired,
+    };
+
+    if (!clean) return base;
+
+    // "BOGO", "Buy 1 Get 1 Free", "Buy 2 Get 1 50% off"
+    const buyGet = fullText.match(/buy\s*(\d+)\s*(?:,\s*)?get\s*(\d+)\s*(free|(\d+)\s*%\s*off)?/);
+    if (/\bbogo\b/.test(fullText) || buyGet) {
+        const buy = buyGet ? parseInt(buyGet[1], 10) : 1;
+        const get = buyGet ? parseInt(buyGet[2], 10) : 1;
+        const discount = buyGet && buyGet[4] ? parseInt(buyGet[4], 10) / 100 : 1;
+        const amount = /\$|\d+\.\d+/.test(clean) ? parseAmount(clean.replace(/buy\s*\d+|get\s*\d+/g, '')) : null;
+        return {
+            ...base,
+            kind: 'bogo',
+            amount,
+            quantity: buy + get,
+            unitPrice: amount !== null ? round((amount * buy + amount * get * (1 - discount)) / (buy + get)) : null,
+            bogo: { buy, get, discount },
+        };
+    }
+
+    // "20% off", "Save 30%"
+    const percent = clean.match(/(\d+(?:\.\d+)?)\s*%\s*off|save\s*(\d+(?:\.\d+)?)\s*%/);
+    if (percent) {
+        return {
+            ...base,
+            kind: 'percent_off',
+            percentOff: parseFloat(percent[1] || percent[2]),
+        };
+    }
+
+    // Discounts printed beside the price are deal terms; only what is left can be a price
+    const priceText = clean.replace(AMOUNT_OFF_PATTERN, ' ').trim();
+    if (!priceText) return base;
+
+    // "3 lbs/$5": one package at the printed price
+    const sizedPackage = priceText.match(SIZE_THEN_PRICE_PATTERN);
+    if (sizedPackage) {
+        const amount = parseFloat(sizedPackage[1]);
+        return { ...base, kind: 'unit', amount, unitPrice: amount };
+    }
+
+    // "2/$5", "2 for $5", "3 for 10" - the quantity is a whole number of its own, not the cents of a price,
+    // and "/2 lb" after a price is its package size ("$5.99/2 lb")
+    const multi = priceText.match(/(?<![\d.])(\d+)\s*(?:for|\/)\s*\$?\s*(\d+(?:\.\d+)?)/);
+    if (multi && !SLASH_UNIT_PATTERN.test(priceText)) {
+        const quantity = parseInt(multi[1], 10);
+        const amount = parseFloat(multi[2]);
+        return {
+            ...base,
+            kind: 'multi',
+            amount,
+            quantity,
+            unitPrice: quantity > 0 ? round(amount / quantity) : null,
+        };
+    }
+
+    // "$3.99/lb", "3.99 per pound", "$1.29 ea", "$3.99 lb." - a unit written as a rate. A unit with its own
+    // quantity ("$2.99 12 oz") is the package size, left to parseMeasure.
+    const perUnit = priceText.match(RATE_PATTERN) || priceText.match(PRICE_THEN_UNIT_PATTERN);
+    const amount = parseAmount(priceText);
+    if (perUnit && amount !== null) {
+        const unit = WEIGHT_UNITS[perUnit[1]];
+        return {
+            ...base,
+            kind: unit === 'ea' ? 'unit' : 'per_weight',
+            amount,
+            unitPrice: amount,
+            priceUnit: unit,
+        };
+    }
+
+    if (amount !== null) {
+        return { ...base, kind: 'unit', amount, unitPrice: amount };
+    }
+
+    return base;
+}
+
+/**
+ * Get the parsed sale price for an item, parsing on demand if Agent 2 did not attach one
+ */
+export function getParsedPrice(item: PricedItem): ParsedPrice {
+    return item.parsedPrice || parsePrice(item.price, item.dealDescription);
+}
+
+/**
+ * Get the parsed regular price for an item, if one was printed
+ */
+export function getParsedOriginalPrice(item: PricedItem): ParsedPrice | null {
+    if (item.parsedOriginalPrice) return item.parsedOriginalPrice;
+    return item.originalPrice ? parsePrice(item.originalPrice) : null;
+}
+
+/**
+ * Effective price of a single item after the deal is applied.
+ * Falls back to the regular price for BOGO and percent-off deals that carry no price of their own.
+ * @returns Price per item (or per weight unit), or null if it cannot be determined
+ */
+export function effectiveUnitPrice(item: PricedItem): number | null {
+    const sale = getParsedPrice(item);
+    if (sale.unitPrice !== null) return sale.unitPrice;
+
+    const regular = getParsedOriginalPrice(item)?.unitPrice ?? null;
+    if (regular === null) return null;
+
+    if (sale.kind === 'bogo' && sale.bogo) {
+        const { buy, get, discount } = sale.bogo;
+        return round((regular * buy + regular * get * (1 - discount)) / (buy + get));
+    }
+
+    if (sale.kind === 'percent_off' && sale.percentOff !== undefined) {
+        return round(regular * (1 - sale.percentOff / 100));
+    }
+
+    return null;
+}
+
+/**
+ * Savings per item compared to the regular price
+ * @returns Positive savings amount, or null if unknown
+ */
+export function computeSavings(item: PricedItem): number | null {
+    const regular = getParsedOriginalPrice(item)?.unitPrice ?? null;
+    const effective = effectiveUnitPrice(item);
+
+    if (regular === null || effective === null || regular <= effective) return null;
+    return round(regular - effective);
+}
+
+/**
+ * Comparator ordering items by effective price (cheapest first, unknown prices last)
+ */
+export function compareByPrice(a: PricedItem, b: PricedItem): number {
+    const priceA = effectiveUnitPrice(a);
+    const priceB = effectiveUnitPrice(b);
+
+    if (priceA === null && priceB === null) return 0;
+    if (priceA === null) return 1;
+    if (priceB === null) return -1;
+    return priceA - priceB;
+}
+
+/**
+ * Short human-readable label for the deal mechanics, e.g. "2 for $5.00" or "Coupon"
+ */
+export function describePrice(parsed: ParsedPrice): string | null {
+    const tags: string[] = [];
+
+    switch (parsed.kind) {
+        case 'multi':
+            if (parsed.unitPrice !== null) tags.push(`$${parsed.unitPrice.toFixed(2)} each`);
+            break;
+        case 'bogo':
+            tags.push(parsed.bogo && parsed.bogo.discount < 1
+                ? `Buy ${parsed.bogo.buy} Get ${parsed.bogo.get} ${Math.round(parsed.bogo.discount * 100)}% Off`
+                : 'BOGO');
+            break;
+        case 'percent_off':
+            tags.push(`${parsed.percentOff}% Off`);
+            break;
+    }
+
+    if (parsed.couponRequired) tags.push('Coupon');
+
+    return tags.length > 0 ? tags.join(' · ') : null;
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { computeTileRegions, dedupeTiledItems, estimateSkewAngle, toPageBox } from '@/utils/tiling';
+
+describe('computeTileRegions', () => {
+    it('returns the whole image when it fits in one tile', () => {
+        expect(computeTileRegions(1200, 900, { tileSize: 1600, overlap: 200 }))
+            .toEqual([{ x: 0, y: 0, width: 1200, height: 900 }]);
+    });
+
+    it('covers a tall scan with overlapping rows', () => {
+        const regions = computeTileRegions(1500, 4000, { tileSize: 1600, overlap: 200 });
+        expect(regions).toHaveLength(3);
+        expect(regions.every(r => r.width === 1500 && r.height === 1600)).toBe(true);
+        expect(regions[0].y).toBe(0);
+        expect(regions[2].y + regions[2].height).toBe(4000);
+        // Neighbours overlap by at least the requested amount
+        expect(regions[0].y + regions[0].height - regions[1].y).toBeGreaterThanOrEqual(200);
+    });
+
+    it('tiles both axes in reading order', () => {
+        const regions = computeTileRegions(3000, 3000, { tileSize: 1600, overlap: 200 });
+        expect(regions.map(r => [r.x, r.y])).toEqual([[0, 0], [1400, 0], [0, 1400], [1400, 1400]]);
+    });
+});
+
+describe('toPageBox', () => {
+    it('maps a tile-relative box onto the page', () => {
+        const region = { x: 0.5, y: 0.25, width: 0.5, height: 0.5 };
+        expect(toPageBox({ x: 0.5, y: 0.5, width: 0.5, height: 0.5 }, region))
+            .toEqual({ x: 0.75, y: 0.5, width: 0.25, height: 0.25 });
+    });
+});
+
+describe('dedupeTiledItems', () => {
+    const milk = (box?: { x: number; y: number; width: number; height: number }) =>
+        ({ rawName: 'Whole Milk', price: '$3.49', sourceFile: 'scan.jpg', sourcePage: 1, sourceBox: box });
+
+    it('merges an item read in two overlapping tiles and unions its box', () => {
+        const items = dedupeTiledItems([
+            { item: milk({ x: 0.1, y: 0.4, width: 0.2, height: 0.1 }), tile: 0 },
+            { item: milk({ x: 0.1, y: 0.45, width: 0.2, height: 0.15 }), tile: 1 },
+        ]);
+        expect(items).toHaveLength(1);
+        expect(items[0].sourceBox!.y).toBeCloseTo(0.4);
+        expect(items[0].sourceBox!.height).toBeCloseTo(0.2);
+    });
+
+    it('keeps the same product printed in two places', () => {
+        const items = dedupeTiledItems([
+            { item: milk({ x: 0.1, y: 0.1, width: 0.2, height: 0.1 }), tile: 0 },
+            { item: milk({ x: 0.1, y: 0.8, width: 0.2, height: 0.1 }), tile: 1 },
+        ]);
+        expect(items).toHaveLength(2);
+    });
+
+    it('keeps repeats within a single tile and across pages', () => {
+        expect(dedupeTiledItems([{ item: milk(), tile: 0 }, { item: milk(), tile: 0 }])).toHaveLength(2);
+        expect(dedupeTiledItems([{ item: milk(), tile: 0 }, { item: { ...milk(), sourcePage: 2 }, tile: 1 }])).toHaveLength(2);
+    });
+});
+
+describe('estimateSkewAngle', () => {
+    // White image with dark text-like lines sloping at `angle` degrees
+    const drawLines = (angle: number, width = 200, height = 200) => {
+        const gray = new Uint8Array(width * height).fill(255);
+        const slope = Math.tan((angle * Math.PI) / 180);
+        for (let y0 = 20; y0 < height - 20; y0 += 16) {
+            for (let x = 10; x < width - 10; x++) {
+                const y = Math.round(y0 + x * slope);
+                if (y >= 0 && y < height) gray[y * width + x] = 0;
+            }
+        }
+        return { gray, width, height };
+    };
+
+    it('detects a clockwise skew', () => {
+        const { gray, width, height } = drawLines(2);
+        expect(estimateSkewAngle(gray, width, height)).toBeCloseTo(2, 0);
+    });
+
+    it('detects a counter-clockwise skew', () => {
+        const { gray, width, height } = drawLines(-3);
+        expect(estimateSkewAngle(gray, width, height)).toBeCloseTo(-3, 0);
+    });
+
+    it('reports no skew for straight or blank images', () => {
+        const { gray, width, height } = drawLines(0);
+        expect(estimateSkewAngle(gray, width, height)).toBe(0);
+        expect(estimateSkewAngle(new Uint8Array(100).fill(255), 10, 10)).toBe(0);
+    });
+});
@@ -0,0 +1,174 @@
+/**
+ * Geometry helpers for splitting large ad images into overlapping tiles
+ */
+
+import { BoundingBox } from '../types';
+
+export interface TilingOptions {
+    maxDimension: number; // Images are downscaled so their longest side fits (px)
+    tileSize: number; // Longest tile side (px); images that fit are not tiled
+    overlap: number; // Overlap between neighbouring tiles (px)
+    deskew: boolean;
+}
+
+export const DEFAULT_TILING: TilingOptions = {
+    maxDimension: 4096,
+    tileSize: 1600,
+    overlap: 200,
+    deskew: true,
+};
+
+export interface PixelRegion {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Evenly spaced tile starts along one axis, each neighbour overlapping by at least `overlap`
+ */
+const axisTiles = (length: number, tileSize: number, overlap: number): { start: number; size: number }[] => {
+    if (length <= tileSize) return [{ start: 0, size: length }];
+
+    const stride = Math.max(tileSize - overlap, 1);
+    const count = Math.ceil((length - overlap) / stride);
+    const step = (length - tileSize) / (count - 1);
+    return Array.from({ length: count }, (_, i) => ({ start: Math.round(i * step), size: tileSize }));
+};
+
+/**
+ * Split an image into a grid of overlapping tiles
+ * @param width - Image width (px)
+ * @param height - Image height (px)
+ * @param options - Tile size and overlap
+ * @returns Tile regions in reading order; a single full-image region when no tiling is needed
+ */
+export function computeTileRegions(width: number, height: number, options: Pick<TilingOptions, 'tileSize' | 'overlap'>): PixelRegion[] {
+    const overlap = Math.min(Math.max(options.overlap, 0), options.tileSize / 2);
+    const rows = axisTiles(height, options.tileSize, overlap);
+    const cols = axisTiles(width, options.tileSize, overlap);
+
+    return rows.flatMap(row => cols.map(col => ({ x: col.start, y: row.start, width: col.size, height: row.size })));
+}
+
+/**
+ * Map a box relative to a tile onto the full page
+ * @param box - Box as fractions of the tile
+ * @param region - Tile as fractions of the page
+ */
+export function toPageBox(box: BoundingBox, region: BoundingBox): BoundingBox {
+    return {
+        x: region.x + box.x * region.width,
+        y: region.y + box.y * region.height,
+        width: box.width * region.width,
+        height: box.height * region.height,
+    };
+}
+
+const boxesIntersect = (a: BoundingBox, b: BoundingBox) =>
+    a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+const unionBox = (a: BoundingBox, b: BoundingBox): BoundingBox => {
+    const x = Math.min(a.x, b.x);
+    const y = Math.min(a.y, b.y);
+    return {
+        x,
+        y,
+        width: Math.max(a.x + a.width, b.x + b.width) - x,
+        height: Math.max(a.y + a.height, b.y + b.height) - y,
+    };
+};
+
+interface TiledItem {
+    rawName: string;
+    price: string;
+    sourceFile?: string;
+    sourcePage?: number;
+    sourceBox?: BoundingBox;
+}
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9$./]+/g, ' ').trim();
+
+/**
+ * Remove items read twice because they straddle a tile boundary.
+ * Items on the same page from different tiles are duplicates when name and price match and
+ * their boxes overlap (or either has no box); the kept item's box covers both.
+ * @param items - Extracted items with the index of the tile they came from
+ * @returns Unique items in their original order
+ */
+export function dedupeTiledItems<T extends TiledItem>(items: { item: T; tile: number }[]): T[] {
+    const kept: { item: T; tiles: Set<number> }[] = [];
+
+    items.forEach(({ item, tile }) => {
+        const key = `${normalize(item.rawName)}|${normalize(item.price)}`;
+        const duplicate = kept.find(k =>
+            !k.tiles.has(tile) &&
+            k.item.sourceFile === item.sourceFile &&
+            k.item.sourcePage === item.sourcePage &&
+            `${normalize(k.item.rawName)}|${normalize(k.item.price)}` === key &&
+            (!k.item.sourceBox || !item.sourceBox || boxesIntersect(k.item.sourceBox, item.sourceBox))
+        );
+
+        if (!duplicate) {
+            kept.push({ item, tiles: new Set([tile]) });
+            return;
+        }
+
+        duplicate.tiles.add(tile);
+        if (duplicate.item.sourceBox && item.sourceBox) {
+            duplicate.item = { ...duplicate.item, sourceBox: unionBox(duplicate.item.sourceBox, item.sourceBox) };
+        } else if (!duplicate.item.sourceBox && item.sourceBox) {
+            duplicate.item = { ...duplicate.item, sourceBox: item.sourceBox };
+        }
+    });
+
+    return kept.map(k => k.item);
+}
+
+/**
+ * Estimate how far a scan is rotated from horizontal using the projection profile of dark pixels:
+ * text rows produce the sharpest row histogram when projected at the scan's skew angle.
+ * @param gray - Grayscale pixels (0-255), row-major
+ * @param width - Image width (px)
+ * @param height - Image height (px)
+ * @param maxAngle - Largest skew considered, in degrees
+ * @returns Skew in degrees; positive when lines slope down to the right
+ */
+export function estimateSkewAngle(gray: ArrayLike<number>, width: number, height: number, maxAngle = 5): number {
+    let sum = 0;
+    for (let i = 0; i < gray.length; i++) sum += gray[i];
+    const threshold = Math.min(128, (sum / gray.length) * 0.7);
+
+    const dark: number[] = [];
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (gray[y * width + x] < threshold) dark.push(x, y);
+        }
+    }
+    if (dark.length < 20) return 0;
+
+    const step = 0.25;
+    let bestAngle = 0;
+    let bestScore = -1;
+    for (let angle = -maxAngle; angle <= maxAngle + 1e-9; angle += step) {
+        const rad = (angle * Math.PI) / 180;
+        const sin = Math.sin(rad);
+        const cos = Math.cos(rad);
+        const bins = new Map<number, number>();
+        for (let i = 0; i < dark.length; i += 2) {
+            const row = Math.round(dark[i + 1] * cos - dark[i] * sin);
+            bins.set(row, (bins.get(row) || 0) + 1);
+        }
+
+        let score = 0;
+        bins.forEach(count => { score += count * count; });
+        // Prefer the smaller rotation on ties
+        if (score > bestScore || (score === bestScore && Math.abs(angle) < Math.abs(bestAngle))) {
+            bestScore = score;
+            bestAngle = angle;
+        }
+    }
+
+    return Math.round(bestAngle * 100) / 100;
+}
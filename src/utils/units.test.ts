@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { computeUnitPrice, findBestValue, parseMeasure, rankByUnitPrice } from '@/utils/units';
+
+describe('parseMeasure', () => {
+    it.each([
+        ['12 oz', 'mass', 340.19],
+        ['1.5lb', 'mass', 680.39],
+        ['500 ml', 'volume', 500],
+        ['1 gal', 'volume', 3785.41],
+        ['6 x 12 fl oz', 'volume', 2129.29],
+        ['12 ct', 'count', 12],
+        ['dozen', 'count', 12],
+        ['lb', 'mass', 453.59],
+    ])('parses "%s"', (text, dimension, amount) => {
+        const measure = parseMeasure(text);
+        expect(measure?.dimension).toBe(dimension);
+        expect(measure?.amount).toBeCloseTo(amount, 1);
+    });
+
+    it('returns null for unparseable sizes', () => {
+        expect(parseMeasure('family size')).toBeNull();
+        expect(parseMeasure(undefined)).toBeNull();
+    });
+});
+
+describe('unit prices', () => {
+    it('compares a 12 oz bag and a 1 lb bag per ounce', () => {
+        const bag = { price: '$2.99', unit: '12 oz' };
+        const pound = { price: '$3.49', unit: '1 lb' };
+        expect(computeUnitPrice(bag)?.amount).toBeCloseTo(0.249, 3);
+        expect(computeUnitPrice(pound)?.amount).toBeCloseTo(0.218, 3);
+        expect(findBestValue([bag, pound])).toBe(pound);
+    });
+
+    it('converts per-pound prices directly', () => {
+        expect(computeUnitPrice({ price: '$3.20/lb', unit: 'lb' })).toEqual({ amount: 0.2, unit: 'oz', dimension: 'mass' });
+    });
+
+    it('ranks incomparable items last', () => {
+        const items = [{ price: '$5', unit: 'family size' }, { price: '$4', unit: '16 oz' }, { price: '$2', unit: '16 oz' }];
+        expect(rankByUnitPrice(items).map(i => i.price)).toEqual(['$2', '$4', '$5']);
+    });
+});
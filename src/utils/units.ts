@@ -0,0 +1,200 @@
+/**
+ * Unit conversion utilities
+ * Parses package sizes ("12 oz", "6 x 16.9 fl oz", "1 gal") into canonical mass/volume/count
+ * and computes price per standard unit for cross-store comparison
+ */
+
+import { Measure, MeasureDimension, ParsedPrice, UnitPrice } from '@/types';
+import { effectiveUnitPrice, getParsedPrice } from '@/utils/pricing';
+
+interface UnitItem {
+    price: string;
+    unit?: string;
+    quantity?: string;
+    originalPrice?: string | null;
+    dealDescription?: string;
+    parsedPrice?: ParsedPrice;
+    measure?: Measure | null;
+    unitPrice?: UnitPrice | null;
+}
+
+// Conversion factors to the canonical unit of each dimension (grams, millilitres, items)
+const UNIT_FACTORS: Record<string, { dimension: MeasureDimension; factor: number }> = {
+    g: { dimension: 'mass', factor: 1 },
+    gram: { dimension: 'mass', factor: 1 },
+    grams: { dimension: 'mass', factor: 1 },
+    kg: { dimension: 'mass', factor: 1000 },
+    oz: { dimension: 'mass', factor: 28.3495 },
+    ounce: { dimension: 'mass', factor: 28.3495 },
+    ounces: { dimension: 'mass', factor: 28.3495 },
+    lb: { dimension: 'mass', factor: 453.592 },
+    lbs: { dimension: 'mass', factor: 453.592 },
+    pound: { dimension: 'mass', factor: 453.592 },
+    pounds: { dimension: 'mass', factor: 453.592 },
+    ml: { dimension: 'volume', factor: 1 },
+    l: { dimension: 'volume', factor: 1000 },
+    liter: { dimension: 'volume', factor: 1000 },
+    litre: { dimension: 'volume', factor: 1000 },
+    'fl oz': { dimension: 'volume', factor: 29.5735 },
+    floz: { dimension: 'volume', factor: 29.5735 },
+    pt: { dimension: 'volume', factor: 473.176 },
+    pint: { dimension: 'volume', factor: 473.176 },
+    qt: { dimension: 'volume', factor: 946.353 },
+    quart: { dimension: 'volume', factor: 946.353 },
+    gal: { dimension: 'volume', factor: 3785.41 },
+    gallon: { dimension: 'volume', factor: 3785.41 },
+    ct: { dimension: 'count', factor: 1 },
+    count: { dimension: 'count', factor: 1 },
+    ea: { dimension: 'count', factor: 1 },
+    each: { dimension: 'count', factor: 1 },
+    pk: { dimension: 'count', factor: 1 },
+    pack: { dimension: 'count', factor: 1 },
+    pkg: { dimension: 'count', factor: 1 },
+    dozen: { dimension: 'count', factor: 12 },
+    doz: { dimension: 'count', factor: 12 },
+};
+
+// Standard units prices are compared in, expressed in canonical units
+const STANDARD_UNITS: Record<MeasureDimension, { label: string; size: number }> = {
+    mass: { label: 'oz', size: 28.3495 },
+    volume: { label: 'fl oz', size: 29.5735 },
+    count: { label: 'each', size: 1 },
+};
+
+const UNIT_PATTERN = 'fl\\.?\\s*oz|floz|ounces?|oz|pounds?|lbs?|kg|grams?|g|ml|liters?|litres?|l|pints?|pt|quarts?|qt|gallons?|gal|ct|count|ea|each|pk|pack|pkg|dozen|doz';
+
+const lookupUnit = (unit: string) => {
+    const key = unit.toLowerCase().replace(/\./g, '').replace(/\s+/g, ' ').replace(/s$/, '');
+    return UNIT_FACTORS[key] || null;
+};
+
+/**
+ * Parse a package size into a canonical measure
+ * @param text - Unit/quantity text, e.g. "12 oz", "2 x 64 fl oz", "1 lb", "dozen"
+ * @returns Measure in grams, millilitres or items, or null if unparseable
+ */
+export function parseMeasure(text: string | null | undefined): Measure | null {
+    if (!text) return null;
+    const clean = text.toLowerCase().replace(/,/g, '').trim();
+
+    // Multipacks: "6 x 12 oz", "12 pk 12 fl oz", "2-pack 64 oz"
+    const multipack = clean.match(new RegExp(`(\\d+)\\s*(?:x|pk|pack|-pack|ct)\\s*(?:of\\s*)?(\\d+(?:\\.\\d+)?)\\s*(${UNIT_PATTERN})\\b`));
+    if (multipack) {
+        const unit = lookupUnit(multipack[3]);
+        if (unit && unit.dimension !== 'count') {
+            const packCount = parseInt(multipack[1], 10);
+            return {
+                dimension: unit.dimension,
+                amount: packCount * parseFloat(multipack[2]) * unit.factor,
+                packCount,
+            };
+        }
+    }
+
+    // Single size: "12 oz", "1.5lb", "500 ml", "12 ct"
+    const single = clean.match(new RegExp(`(\\d+(?:\\.\\d+)?)\\s*-?\\s*(${UNIT_PATTERN})\\b`));
+    if (single) {
+        const unit = lookupUnit(single[2]);
+        if (unit) {
+            return { dimension: unit.dimension, amount: parseFloat(single[1]) * unit.factor, packCount: 1 };
+        }
+    }
+
+    // Bare unit: "lb", "each", "dozen"
+    const bare = clean.match(new RegExp(`^(?:per\\s+|/\\s*)?(${UNIT_PATTERN})$`));
+    if (bare) {
+        const unit = lookupUnit(bare[1]);
+        if (unit) return { dimension: unit.dimension, amount: unit.factor, packCount: 1 };
+    }
+
+    return null;
+}
+
+/**
+ * Compute the price per standard unit (per oz, per fl oz or each) for an item.
+ * Per-weight prices ("$3.99/lb") are converted directly; package prices are divided by package size.
+ */
+export function computeUnitPrice(item: UnitItem): UnitPrice | null {
+    const parsed = getParsedPrice(item);
+
+    if (parsed.kind === 'per_weight' && parsed.priceUnit && parsed.unitPrice !== null) {
+        const unit = lookupUnit(parsed.priceUnit);
+        if (!unit) return null;
+        const standard = STANDARD_UNITS[unit.dimension];
+        return {
+            amount: parsed.unitPrice * (standard.size / unit.factor),
+            unit: standard.label,
+            dimension: unit.dimension,
+        };
+    }
+
+    const measure = item.measure !== undefined ? item.measure : parseMeasure(item.unit || item.quantity);
+    const price = effectiveUnitPrice(item);
+    if (!measure || measure.amount <= 0 || price === null) return null;
+
+    const standard = STANDARD_UNITS[measure.dimension];
+    return {
+        amount: price / (measure.amount / standard.size),
+        unit: standard.label,
+        dimension: measure.dimension,
+    };
+}
+
+/**
+ * Get the unit price attached by Agent 2, computing it on demand otherwise
+ */
+export function getUnitPrice(item: UnitItem): UnitPrice | null {
+    return item.unitPrice !== undefined ? item.unitPrice : computeUnitPrice(item);
+}
+
+/**
+ * Format a unit price for display, e.g. "$0.25/oz"
+ */
+export function formatUnitPrice(unitPrice: UnitPrice): string {
+    const digits = unitPrice.amount < 1 ? 3 : 2;
+    return `$${unitPrice.amount.toFixed(digits)}/${unitPrice.unit}`;
+}
+
+/**
+ * Order items by price per standard unit.
+ * Items measured in the group's most common dimension come first (cheapest first);
+ * everything else keeps its relative order at the end.
+ */
+export function rankByUnitPrice<T extends UnitItem>(items: T[]): T[] {
+    const dimension = dominantDimension(items);
+
+    return items
+        .map((item, index) => ({ item, index, unitPrice: getUnitPrice(item) }))
+        .sort((a, b) => {
+            const aComparable = a.unitPrice !== null && a.unitPrice.dimension === dimension;
+            const bComparable = b.unitPrice !== null && b.unitPrice.dimension === dimension;
+            if (aComparable && bComparable) return a.unitPrice!.amount - b.unitPrice!.amount;
+            if (aComparable) return -1;
+            if (bComparable) return 1;
+            return a.index - b.index;
+        })
+        .map(entry => entry.item);
+}
+
+/**
+ * Find the item with the lowest price per standard unit.
+ * Returns null unless at least two items are comparable in the same dimension.
+ */
+export function findBestValue<T extends UnitItem>(items: T[]): T | null {
+    const dimension = dominantDimension(items);
+    const comparable = items.filter(item => getUnitPrice(item)?.dimension === dimension);
+    if (comparable.length < 2) return null;
+
+    return rankByUnitPrice(comparable)[0];
+}
+
+const dominantDimension = (items: UnitItem[]): MeasureDimension | null => {
+    const counts: Partial<Record<MeasureDimension, number>> = {};
+    items.forEach(item => {
+        const unitPrice = getUnitPrice(item);
+        if (unitPrice) counts[unitPrice.dimension] = (counts[unitPrice.dimension] || 0) + 1;
+    });
+
+    const ranked = (Object.keys(counts) as MeasureDimension[]).sort((a, b) => counts[b]! - counts[a]!);
+    return ranked[0] || null;
+};
@@ -0,0 +1,80 @@
+/**
+ * Date helpers for grouping weekly ads by the week they are valid
+ */
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const toIsoDate = (date: Date): string => {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Parse the first date in a flyer validity string ("Oct 25 - Oct 31", "10/25/2024 - 10/31/2024")
+ * @param text - Validity text printed on the ad
+ * @param reference - Date used to infer a missing year (defaults to now)
+ * @returns Parsed start date, or null if no date was found
+ */
+export function parseValidityStart(text: string | null | undefined, reference: Date = new Date()): Date | null {
+    if (!text) return null;
+    const clean = text.toLowerCase();
+
+    let month: number | null = null;
+    let day: number | null = null;
+    let year: number | null = null;
+
+    const named = clean.match(/\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s+(\d{1,2})(?:st|nd|rd|th)?(?:,?\s+(\d{4}))?/);
+    const numeric = clean.match(/\b(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?/);
+
+    if (named) {
+        month = MONTHS.indexOf(named[1]);
+        day = parseInt(named[2], 10);
+        year = named[3] ? parseInt(named[3], 10) : null;
+    } else if (numeric) {
+        month = parseInt(numeric[1], 10) - 1;
+        day = parseInt(numeric[2], 10);
+        if (numeric[3]) {
+            year = parseInt(numeric[3], 10);
+            if (year < 100) year += 2000;
+        }
+    }
+
+    if (month === null || day === null || month < 0 || month > 11 || day < 1 || day > 31) return null;
+
+    if (year === null) {
+        // Ads without a year are assumed to be recent: pick the year that lands closest to the reference date
+        year = reference.getFullYear();
+        const candidate = new Date(year, month, day);
+        const sixMonths = 1000 * 60 * 60 * 24 * 182;
+        if (candidate.getTime() - reference.getTime() > sixMonths) year -= 1;
+        else if (reference.getTime() - candidate.getTime() > sixMonths) year += 1;
+    }
+
+    return new Date(year, month, day);
+}
+
+/**
+ * Key identifying the week (Sunday start) a date falls in, formatted as YYYY-MM-DD
+ */
+export function getWeekKey(date: Date): string {
+    const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    start.setDate(start.getDate() - start.getDay());
+    return toIsoDate(start);
+}
+
+/**
+ * Week key for a flyer validity string, falling back to the week of `fallback`
+ */
+export function getValidityWeekKey(validity: string | null | undefined, fallback: Date = new Date()): string {
+    return getWeekKey(parseValidityStart(validity, fallback) || fallback);
+}
+
+/**
+ * Human-readable label for a week key, e.g. "Week of Oct 19, 2026"
+ */
+export function formatWeekKey(weekKey: string): string {
+    const [year, month, day] = weekKey.split('-').map(Number);
+    const date = new Date(year, month - 1, day);
+    return `Week of ${date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}`;
+}
@@ -2,6 +2,25 @@
 
 interface ImportMetaEnv {
     readonly VITE_API_KEY: string;
+    readonly VITE_GEMINI_MODEL?: string;
+    readonly VITE_GEMINI_RESPONSE_SCHEMA?: string;
+    readonly VITE_LLM_PROVIDER?: string;
+    readonly VITE_EXTRACTOR_PROVIDER?: string;
+    readonly VITE_LIBRARIAN_PROVIDER?: string;
+    readonly VITE_INTERPRETER_PROVIDER?: string;
+    readonly VITE_MATCHER_PROVIDER?: string;
+    readonly VITE_LOCAL_LLM_BASE_URL?: string;
+    readonly VITE_LOCAL_LLM_MODEL?: string;
+    readonly VITE_LOCAL_LLM_API_KEY?: string;
+    readonly VITE_LOCAL_LLM_VISION?: string;
+    readonly VITE_TILE_SIZE?: string;
+    readonly VITE_TILE_OVERLAP?: string;
+    readonly VITE_LLM_FIXTURE_MODE?: 'record' | 'replay';
+    readonly VITE_LLM_FIXTURE_URL?: string;
+    readonly VITE_LLM_MAX_CONCURRENCY?: string;
+    readonly VITE_LLM_REQUESTS_PER_MINUTE?: string;
+    readonly VITE_LLM_MAX_RETRIES?: string;
+    readonly VITE_LLM_CACHE_TTL_HOURS?: string;
 }
 
 interface ImportMeta {
@@ -117,6 +117,20 @@ async function classifyBatch(items: string[]) {
     return results;
 }
 
+// Embed texts for similarity comparisons (normalized, so dot product = cosine similarity)
+async function embedTexts(texts: string[]): Promise<number[][]> {
+    if (!isInitialized) {
+        const initResult = await initialize();
+        if (!initResult.success) {
+            throw new Error(`Worker not initialized: ${initResult.message}`);
+        }
+    }
+
+    if (texts.length === 0) return [];
+    const output = await extractor(texts, { pooling: 'mean', normalize: true });
+    return output.tolist();
+}
+
 // Message handler
 self.onmessage = async (event: MessageEvent) => {
     const { type, payload, id } = event.data;
@@ -138,6 +152,11 @@ self.onmessage = async (event: MessageEvent) => {
                 self.postMessage({ type: 'CLASSIFY_BATCH_RESPONSE', payload: batchResults, id });
                 break;
 
+            case 'EMBED':
+                const vectors = await embedTexts(payload.texts);
+                self.postMessage({ type: 'EMBED_RESPONSE', payload: vectors, id });
+                break;
+
             default:
                 self.postMessage({
                     type: 'ERROR',